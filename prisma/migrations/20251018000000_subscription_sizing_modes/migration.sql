@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "SizingMode" AS ENUM ('MULTIPLIER', 'EQUITY_PROPORTIONAL', 'FIXED_NOTIONAL', 'FIXED_QUANTITY', 'RISK_PERCENT');
+
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "sizingMode" "SizingMode" NOT NULL DEFAULT 'MULTIPLIER',
+ADD COLUMN "fixedNotional" DECIMAL(20,8),
+ADD COLUMN "fixedQuantity" DECIMAL(20,8),
+ADD COLUMN "riskPercent" DECIMAL(10,4);
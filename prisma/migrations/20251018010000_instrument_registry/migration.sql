@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "instruments" (
+    "id" TEXT NOT NULL,
+    "broker" "Broker" NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "canonicalId" TEXT NOT NULL,
+    "baseAsset" TEXT NOT NULL,
+    "quoteAsset" TEXT NOT NULL,
+    "settleAsset" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "instruments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "instruments_broker_symbol_key" ON "instruments"("broker", "symbol");
+
+-- CreateIndex
+CREATE INDEX "instruments_canonicalId_idx" ON "instruments"("canonicalId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN "positionId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "trades" ADD CONSTRAINT "trades_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "positions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
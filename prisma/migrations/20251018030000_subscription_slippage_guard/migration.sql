@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "SlippageAction" AS ENUM ('SKIP', 'LIMIT_IOC');
+
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "maxSlippage" DECIMAL(10,4),
+ADD COLUMN "slippageAction" "SlippageAction" NOT NULL DEFAULT 'SKIP';
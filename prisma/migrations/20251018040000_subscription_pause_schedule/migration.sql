@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionEventType" AS ENUM ('PAUSED', 'RESUMED');
+
+-- CreateEnum
+CREATE TYPE "SubscriptionEventSource" AS ENUM ('USER', 'RISK_LIMIT');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "tradingSchedule" JSONB,
+ADD COLUMN "pausedAt" TIMESTAMP(3),
+ADD COLUMN "pauseReason" TEXT,
+ADD COLUMN "resumedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "subscription_events" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "type" "SubscriptionEventType" NOT NULL,
+    "source" "SubscriptionEventSource" NOT NULL DEFAULT 'USER',
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "subscription_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subscription_events_subscriptionId_createdAt_idx" ON "subscription_events"("subscriptionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "subscription_events" ADD CONSTRAINT "subscription_events_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "CopySkipCause" AS ENUM ('SYMBOL_FILTER', 'SCHEDULE', 'RISK_LIMIT', 'SLIPPAGE', 'ORDER_RULES');
+
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "allowedSymbols" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "blockedSymbols" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "copy_skips" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "masterTradeId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" "TradeSide" NOT NULL,
+    "cause" "CopySkipCause" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "copy_skips_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "copy_skips_subscriptionId_createdAt_idx" ON "copy_skips"("subscriptionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "copy_skips" ADD CONSTRAINT "copy_skips_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "trades_userId_createdAt_idx" ON "trades"("userId", "createdAt");
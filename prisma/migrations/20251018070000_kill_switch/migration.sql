@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "SubscriptionEventSource" ADD VALUE 'KILL_SWITCH';
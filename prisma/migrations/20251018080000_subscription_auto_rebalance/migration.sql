@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "autoRebalance" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "rebalanceThreshold" DECIMAL(10,4) NOT NULL DEFAULT 5;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "TradeStatus" ADD VALUE 'PARTIALLY_FILLED';
+
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN "filledQuantity" DECIMAL(20,8) NOT NULL DEFAULT 0;
@@ -0,0 +1,76 @@
+-- AlterEnum
+ALTER TYPE "Broker" ADD VALUE 'PAPER';
+
+-- CreateTable
+CREATE TABLE "paper_accounts" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USDT',
+    "balance" DECIMAL(20,8) NOT NULL,
+    "initialBalance" DECIMAL(20,8) NOT NULL,
+    "takerFee" DECIMAL(10,4) NOT NULL DEFAULT 0.05,
+    "makerFee" DECIMAL(10,4) NOT NULL DEFAULT 0.02,
+    "slippage" DECIMAL(10,4) NOT NULL DEFAULT 0.05,
+    "leverage" DECIMAL(10,4) NOT NULL DEFAULT 10,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "paper_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "paper_positions" (
+    "id" TEXT NOT NULL,
+    "paperAccountId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" "TradeSide" NOT NULL,
+    "quantity" DECIMAL(20,8) NOT NULL,
+    "entryPrice" DECIMAL(20,8) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "paper_positions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "paper_orders" (
+    "id" TEXT NOT NULL,
+    "paperAccountId" TEXT NOT NULL,
+    "clientOrderId" TEXT,
+    "symbol" TEXT NOT NULL,
+    "side" "TradeSide" NOT NULL,
+    "type" TEXT NOT NULL,
+    "timeInForce" TEXT NOT NULL DEFAULT 'GTC',
+    "quantity" DECIMAL(20,8) NOT NULL,
+    "price" DECIMAL(20,8),
+    "reduceOnly" BOOLEAN NOT NULL DEFAULT false,
+    "status" "TradeStatus" NOT NULL DEFAULT 'PENDING',
+    "filledQuantity" DECIMAL(20,8) NOT NULL DEFAULT 0,
+    "averagePrice" DECIMAL(20,8),
+    "fees" DECIMAL(20,8) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "paper_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "paper_accounts_accountId_key" ON "paper_accounts"("accountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "paper_positions_paperAccountId_symbol_key" ON "paper_positions"("paperAccountId", "symbol");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "paper_orders_paperAccountId_clientOrderId_key" ON "paper_orders"("paperAccountId", "clientOrderId");
+
+-- CreateIndex
+CREATE INDEX "paper_orders_paperAccountId_status_idx" ON "paper_orders"("paperAccountId", "status");
+
+-- AddForeignKey
+ALTER TABLE "paper_accounts" ADD CONSTRAINT "paper_accounts_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "broker_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "paper_positions" ADD CONSTRAINT "paper_positions_paperAccountId_fkey" FOREIGN KEY ("paperAccountId") REFERENCES "paper_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "paper_orders" ADD CONSTRAINT "paper_orders_paperAccountId_fkey" FOREIGN KEY ("paperAccountId") REFERENCES "paper_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
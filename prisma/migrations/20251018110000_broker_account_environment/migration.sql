@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "BrokerEnvironment" AS ENUM ('LIVE', 'TESTNET');
+
+-- AlterTable
+ALTER TABLE "broker_accounts" ADD COLUMN "environment" "BrokerEnvironment" NOT NULL DEFAULT 'LIVE';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "stopLossPercent" DECIMAL(10,4);
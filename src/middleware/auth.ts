@@ -100,6 +100,24 @@ export const authorize = (requiredKycStatus?: string[]) => {
   };
 };
 
+// Operator-only routes; admins are listed by email in ADMIN_EMAILS
+export const requireAdmin = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!adminEmails.includes(req.user.email.toLowerCase())) {
+    return next(new AppError('Admin access required', 403));
+  }
+
+  next();
+};
+
 export const optionalAuth = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -0,0 +1,117 @@
+import { BaseBroker, BrokerCredentials, TradeOrder } from '../../services/brokerIntegrations/baseBroker';
+import { BinanceFuturesBroker } from '../../services/brokerIntegrations/binanceFutures';
+import { BybitBroker } from '../../services/brokerIntegrations/bybit';
+import { DeltaExchangeBroker } from '../../services/brokerIntegrations/deltaExchange';
+import { OKXBroker } from '../../services/brokerIntegrations/okx';
+import { loadScenario } from '../scenario';
+import { MockExchange } from '../server';
+
+// Keep test runs out of the log files
+jest.mock('../../utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const PORT = parseInt(process.env.MOCK_EXCHANGE_TEST_PORT || '18090');
+
+const credentials: BrokerCredentials = {
+  apiKey: 'mock-api-key',
+  apiSecret: 'mock-api-secret',
+  passphrase: 'mock-passphrase',
+};
+
+interface AdapterCase {
+  name: string;
+  create: () => BaseBroker;
+  symbol: string;
+  quantity: number;  // Smallest order the mock accepts, in the venue's own units
+  price: number;     // Mock market price
+}
+
+const ADAPTERS: AdapterCase[] = [
+  { name: 'Binance', create: () => new BinanceFuturesBroker(credentials), symbol: 'BTCUSDT', quantity: 0.001, price: 60000 },
+  { name: 'Bybit', create: () => new BybitBroker(credentials), symbol: 'BTCUSDT', quantity: 0.001, price: 60000 },
+  { name: 'OKX', create: () => new OKXBroker(credentials), symbol: 'BTC-USDT-SWAP', quantity: 1, price: 60000 },
+  { name: 'Delta', create: () => new DeltaExchangeBroker(credentials), symbol: 'BTCUSD', quantity: 1, price: 60000 },
+];
+
+// Market orders fill on the mock's execution timer rather than in the placement response
+const waitForStatus = async (broker: BaseBroker, orderId: string, symbol: string, status: string) => {
+  const deadline = Date.now() + 5000;
+  for (;;) {
+    const result = await broker.getOrderStatus(orderId, symbol);
+    if (result.status === status || Date.now() > deadline) {
+      return result;
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+};
+
+describe('broker adapters against the mock exchange', () => {
+  let exchange: MockExchange;
+
+  beforeAll(async () => {
+    Object.assign(process.env, MockExchange.endpointEnv(PORT));
+    exchange = new MockExchange(loadScenario());
+    await exchange.start(PORT);
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  describe.each(ADAPTERS)('$name', ({ create, symbol, quantity, price }) => {
+    let broker: BaseBroker;
+
+    beforeAll(() => {
+      broker = create();
+    });
+
+    it('validates the mock credentials', async () => {
+      await expect(broker.validateCredentials()).resolves.toBe(true);
+    });
+
+    it('places, reads back and cancels a resting limit order', async () => {
+      const order: TradeOrder = { symbol, side: 'buy', type: 'limit', quantity, price: price / 2 };
+
+      const placed = await broker.placeOrder(order);
+      expect(placed.orderId).toBeTruthy();
+      expect(placed.symbol).toBe(symbol);
+      expect(placed.status).toBe('pending');
+
+      const open = await broker.getOrderStatus(placed.orderId, symbol);
+      expect(open.orderId).toBe(placed.orderId);
+      expect(open.status).toBe('pending');
+      expect(open.quantity).toBeCloseTo(quantity);
+      expect(open.price).toBeCloseTo(price / 2);
+
+      await expect(broker.cancelOrder(placed.orderId, symbol)).resolves.toBe(true);
+
+      const cancelled = await broker.getOrderStatus(placed.orderId, symbol);
+      expect(cancelled.status).toBe('cancelled');
+      expect(cancelled.filledQuantity ?? 0).toBe(0);
+    });
+
+    it('reports the fill of a market order', async () => {
+      const placed = await broker.placeOrder({ symbol, side: 'buy', type: 'market', quantity });
+
+      const filled = await waitForStatus(broker, placed.orderId, symbol, 'filled');
+      expect(filled.status).toBe('filled');
+      expect(filled.filledQuantity).toBeCloseTo(quantity);
+      expect(filled.averagePrice).toBeCloseTo(price, -2);
+      expect(filled.fees).toBeGreaterThan(0);
+
+      const position = (await broker.getPositions()).find(position => position.symbol === symbol);
+      expect(position?.side).toBe('long');
+      expect(position?.size).toBeCloseTo(quantity);
+    });
+
+    it('reports a short once the position flips', async () => {
+      const placed = await broker.placeOrder({ symbol, side: 'sell', type: 'market', quantity: quantity * 2 });
+      await waitForStatus(broker, placed.orderId, symbol, 'filled');
+
+      const position = (await broker.getPositions()).find(position => position.symbol === symbol);
+      expect(position?.side).toBe('short');
+      expect(position?.size).toBeCloseTo(quantity);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import express from 'express';
+import WebSocket from 'ws';
+
+// REST routes plus the WebSocket paths one venue serves
+export interface VenueHandler {
+  router: express.Router;
+  ownsSocket(path: string): boolean;
+  handleSocket(ws: WebSocket, path: string): void;
+}
+
+export const sendJson = (ws: WebSocket, payload: unknown): void => {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(payload));
+  }
+};
+
+export const parseMessage = (data: WebSocket.Data): any => {
+  const raw = data.toString();
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+export const percentChange = (price: number, open: number): number => (open > 0 ? ((price - open) / open) * 100 : 0);
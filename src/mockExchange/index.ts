@@ -0,0 +1,29 @@
+import dotenv from 'dotenv';
+import { logger } from '../utils/logger';
+import { loadScenario } from './scenario';
+import { MockExchange } from './server';
+
+dotenv.config();
+
+const PORT = parseInt(process.env.MOCK_EXCHANGE_PORT || '8090');
+
+const main = async () => {
+  const scenario = loadScenario(process.env.MOCK_EXCHANGE_SCENARIO);
+  const exchange = new MockExchange(scenario);
+
+  await exchange.start(PORT);
+
+  logger.info('Point the adapters at the mock exchange with:');
+  Object.entries(MockExchange.endpointEnv(PORT)).forEach(([name, value]) => logger.info(`  ${name}=${value}`));
+
+  const shutdown = () => {
+    exchange.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+main().catch((error) => {
+  logger.error('Mock exchange failed to start:', error);
+  process.exit(1);
+});
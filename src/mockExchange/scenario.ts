@@ -0,0 +1,152 @@
+import fs from 'fs';
+import { ExchangeBroker } from '../services/brokerIntegrations/endpoints';
+
+export interface MockCredentials {
+  apiKey: string;
+  apiSecret: string;
+  passphrase?: string;
+}
+
+export interface MockInstrument {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  settleAsset: string;
+  tickSize: number;
+  lotSize: number;
+  minQuantity: number;
+  minNotional?: number;
+  // Base currency per contract; 1 where orders are sized in the base asset
+  contractValue: number;
+  // Numeric product id, only used by Delta
+  productId?: number;
+}
+
+export interface MockPosition {
+  symbol: string;
+  // Signed size in contracts, negative for shorts
+  size: number;
+  entryPrice: number;
+}
+
+export interface MockExecution {
+  // Market and crossing orders fill in this many slices to exercise partial fill handling
+  fillSteps: number;
+  fillIntervalMs: number;
+  takerFee: number;  // Fee rates as fractions of notional
+  makerFee: number;
+  leverage: number;
+}
+
+// Timeline entries are relative to server start; price moves also fill resting limit orders
+export interface MockScriptStep {
+  afterMs: number;
+  symbol: string;
+  price: number;
+}
+
+export interface VenueScenario {
+  credentials: MockCredentials;
+  balances: Record<string, number>;
+  positions: MockPosition[];
+  instruments: MockInstrument[];
+  prices: Record<string, number>;
+  execution: MockExecution;
+  script: MockScriptStep[];
+}
+
+export interface MockScenario {
+  // Shifts the mock's clock away from the host's to reproduce timestamp rejections
+  serverTimeOffsetMs: number;
+  tickerIntervalMs: number;
+  venues: Record<ExchangeBroker, VenueScenario>;
+}
+
+export const MOCK_VENUES: ExchangeBroker[] = ['BINANCE', 'BYBIT', 'OKX', 'DELTA'];
+
+const DEFAULT_CREDENTIALS: MockCredentials = {
+  apiKey: 'mock-api-key',
+  apiSecret: 'mock-api-secret',
+  passphrase: 'mock-passphrase',
+};
+
+const DEFAULT_EXECUTION: MockExecution = {
+  fillSteps: 1,
+  fillIntervalMs: 200,
+  takerFee: 0.0005,
+  makerFee: 0.0002,
+  leverage: 10,
+};
+
+const linearInstruments = (btcLot: number, ethLot: number): MockInstrument[] => [
+  { symbol: 'BTCUSDT', baseAsset: 'BTC', quoteAsset: 'USDT', settleAsset: 'USDT', tickSize: 0.1, lotSize: btcLot, minQuantity: btcLot, minNotional: 5, contractValue: 1 },
+  { symbol: 'ETHUSDT', baseAsset: 'ETH', quoteAsset: 'USDT', settleAsset: 'USDT', tickSize: 0.01, lotSize: ethLot, minQuantity: ethLot, minNotional: 5, contractValue: 1 },
+];
+
+const venueDefaults = (): Record<ExchangeBroker, VenueScenario> => ({
+  BINANCE: {
+    credentials: { ...DEFAULT_CREDENTIALS },
+    balances: { USDT: 10000 },
+    positions: [],
+    instruments: linearInstruments(0.001, 0.001),
+    prices: { BTCUSDT: 60000, ETHUSDT: 3000 },
+    execution: { ...DEFAULT_EXECUTION },
+    script: [],
+  },
+  BYBIT: {
+    credentials: { ...DEFAULT_CREDENTIALS },
+    balances: { USDT: 10000 },
+    positions: [],
+    instruments: linearInstruments(0.001, 0.01),
+    prices: { BTCUSDT: 60000, ETHUSDT: 3000 },
+    execution: { ...DEFAULT_EXECUTION },
+    script: [],
+  },
+  OKX: {
+    credentials: { ...DEFAULT_CREDENTIALS },
+    balances: { USDT: 10000 },
+    positions: [],
+    instruments: [
+      { symbol: 'BTC-USDT-SWAP', baseAsset: 'BTC', quoteAsset: 'USDT', settleAsset: 'USDT', tickSize: 0.1, lotSize: 0.01, minQuantity: 0.01, contractValue: 0.01 },
+      { symbol: 'ETH-USDT-SWAP', baseAsset: 'ETH', quoteAsset: 'USDT', settleAsset: 'USDT', tickSize: 0.01, lotSize: 0.01, minQuantity: 0.01, contractValue: 0.1 },
+    ],
+    prices: { 'BTC-USDT-SWAP': 60000, 'ETH-USDT-SWAP': 3000 },
+    execution: { ...DEFAULT_EXECUTION },
+    script: [],
+  },
+  DELTA: {
+    credentials: { ...DEFAULT_CREDENTIALS },
+    balances: { USD: 10000 },
+    positions: [],
+    instruments: [
+      { symbol: 'BTCUSD', baseAsset: 'BTC', quoteAsset: 'USD', settleAsset: 'USD', tickSize: 0.5, lotSize: 1, minQuantity: 1, contractValue: 0.001, productId: 27 },
+      { symbol: 'ETHUSD', baseAsset: 'ETH', quoteAsset: 'USD', settleAsset: 'USD', tickSize: 0.05, lotSize: 1, minQuantity: 1, contractValue: 0.01, productId: 3136 },
+    ],
+    prices: { BTCUSD: 60000, ETHUSD: 3000 },
+    execution: { ...DEFAULT_EXECUTION },
+    script: [],
+  },
+});
+
+// Scenario files only need the fields they change; everything else keeps the defaults above
+export const loadScenario = (filePath?: string): MockScenario => {
+  const defaults = venueDefaults();
+  const overrides = filePath ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : {};
+
+  const venues = {} as Record<ExchangeBroker, VenueScenario>;
+  for (const venue of MOCK_VENUES) {
+    const override = overrides.venues?.[venue] || {};
+    venues[venue] = {
+      ...defaults[venue],
+      ...override,
+      credentials: { ...defaults[venue].credentials, ...overrides.credentials, ...override.credentials },
+      execution: { ...defaults[venue].execution, ...override.execution },
+    };
+  }
+
+  return {
+    serverTimeOffsetMs: Number(overrides.serverTimeOffsetMs || 0),
+    tickerIntervalMs: Number(overrides.tickerIntervalMs || 1000),
+    venues,
+  };
+};
@@ -0,0 +1,177 @@
+import express from 'express';
+import { createServer, IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer } from 'ws';
+import { ExchangeBroker } from '../services/brokerIntegrations/endpoints';
+import { logger } from '../utils/logger';
+import { VenueHandler } from './handler';
+import { MOCK_VENUES, MockScenario } from './scenario';
+import { RawBodyRequest } from './signing';
+import { MockVenue } from './venue';
+import { createBinanceHandler } from './venues/binance';
+import { createBybitHandler } from './venues/bybit';
+import { createDeltaHandler } from './venues/delta';
+import { createOkxHandler } from './venues/okx';
+
+const HANDLERS: Record<ExchangeBroker, (venue: MockVenue) => VenueHandler> = {
+  BINANCE: createBinanceHandler,
+  BYBIT: createBybitHandler,
+  OKX: createOkxHandler,
+  DELTA: createDeltaHandler,
+};
+
+// WebSocket paths per venue; REST paths do not overlap, so every venue shares the server root
+const SOCKET_PATHS: Record<ExchangeBroker, { ws: string; privateWs: string }> = {
+  BINANCE: { ws: '/binance/ws', privateWs: '/binance/ws' },
+  BYBIT: { ws: '/bybit/v5/public/linear', privateWs: '/bybit/v5/private' },
+  OKX: { ws: '/okx/ws/v5/public', privateWs: '/okx/ws/v5/private' },
+  DELTA: { ws: '/delta', privateWs: '/delta' },
+};
+
+// Serves every venue's REST API and streams from one port, plus /mock control routes for tests
+export class MockExchange {
+  readonly venues: Record<ExchangeBroker, MockVenue>;
+  private server: Server | null = null;
+  private readonly wss = new WebSocketServer({ noServer: true });
+  private readonly handlers: VenueHandler[];
+  private readonly app = express();
+
+  constructor(private readonly scenario: MockScenario) {
+    this.venues = {} as Record<ExchangeBroker, MockVenue>;
+    for (const name of MOCK_VENUES) {
+      this.venues[name] = new MockVenue(name, scenario.venues[name], scenario.serverTimeOffsetMs);
+    }
+    this.handlers = MOCK_VENUES.map(name => HANDLERS[name](this.venues[name]));
+
+    // Signatures are checked against the exact bytes the client sent
+    const keepRawBody = (req: IncomingMessage, res: unknown, buffer: Buffer) => {
+      (req as RawBodyRequest).rawBody = buffer.toString();
+    };
+    this.app.use(express.json({ verify: keepRawBody }));
+    this.app.use(express.urlencoded({ extended: false, verify: keepRawBody }));
+
+    this.app.use((req, res, next) => {
+      logger.debug(`Mock exchange ${req.method} ${req.originalUrl}`);
+      next();
+    });
+
+    // Stamp responses with the venue clock; Delta clients sync from this header
+    this.app.use((req, res, next) => {
+      res.setHeader('Date', new Date(Date.now() + scenario.serverTimeOffsetMs).toUTCString());
+      next();
+    });
+
+    this.app.use('/mock', this.controlRoutes());
+    this.handlers.forEach(handler => this.app.use(handler.router));
+
+    this.app.use((req, res) => {
+      res.status(404).json({ error: `Mock exchange has no route for ${req.method} ${req.path}` });
+    });
+  }
+
+  async start(port: number): Promise<void> {
+    this.server = createServer(this.app);
+    this.server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => this.upgrade(req, socket, head));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, resolve);
+    });
+
+    MOCK_VENUES.forEach(name => this.venues[name].start(this.scenario.tickerIntervalMs));
+    logger.info(`Mock exchange listening on http://localhost:${port}`);
+  }
+
+  async stop(): Promise<void> {
+    MOCK_VENUES.forEach(name => this.venues[name].stop());
+    this.wss.clients.forEach(client => client.terminate());
+
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  // Environment overrides that point the adapters at this server
+  static endpointEnv(port: number): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const name of MOCK_VENUES) {
+      // Testnet accounts are pointed here too
+      for (const prefix of [name, `${name}_TESTNET`]) {
+        env[`${prefix}_REST_URL`] = `http://localhost:${port}`;
+        env[`${prefix}_WS_URL`] = `ws://localhost:${port}${SOCKET_PATHS[name].ws}`;
+        env[`${prefix}_PRIVATE_WS_URL`] = `ws://localhost:${port}${SOCKET_PATHS[name].privateWs}`;
+      }
+    }
+    return env;
+  }
+
+  private upgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const path = (req.url || '').split('?')[0];
+    const handler = this.handlers.find(candidate => candidate.ownsSocket(path));
+
+    if (!handler) {
+      socket.destroy();
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => handler.handleSocket(ws, path));
+  }
+
+  private controlRoutes(): express.Router {
+    const router = express.Router();
+
+    const venueFor = (req: express.Request, res: express.Response): MockVenue | undefined => {
+      const venue = this.venues[req.params.venue.toUpperCase() as ExchangeBroker];
+      if (!venue) {
+        res.status(404).json({ error: `Unknown venue ${req.params.venue}` });
+      }
+      return venue;
+    };
+
+    router.get('/:venue/state', (req, res) => {
+      const venue = venueFor(req, res);
+      if (venue) {
+        res.json({
+          balances: venue.getBalances(),
+          positions: venue.getPositions(),
+          openOrders: venue.getOpenOrders(),
+        });
+      }
+    });
+
+    // Moving a price publishes a ticker and fills any resting limit order it crosses
+    router.post('/:venue/prices', (req, res) => {
+      const venue = venueFor(req, res);
+      if (!venue) {
+        return;
+      }
+
+      const { symbol, price } = req.body || {};
+      if (typeof symbol !== 'string' || !(Number(price) > 0)) {
+        res.status(400).json({ error: 'symbol and a positive price are required' });
+        return;
+      }
+
+      venue.setPrice(symbol, Number(price));
+      res.json({ symbol, price: Number(price) });
+    });
+
+    // Cuts every open stream, so clients can be checked for reconnect and resubscribe
+    router.post('/sockets/drop', (req, res) => {
+      const dropped = this.wss.clients.size;
+      this.wss.clients.forEach(client => client.terminate());
+      res.json({ dropped });
+    });
+
+    router.post('/:venue/reset', (req, res) => {
+      const venue = venueFor(req, res);
+      if (venue) {
+        venue.reset();
+        res.json({ reset: true });
+      }
+    });
+
+    return router;
+  }
+}
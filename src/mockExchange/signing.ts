@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+import express from 'express';
+
+export interface RawBodyRequest extends express.Request {
+  rawBody?: string;
+}
+
+export const hmac = (secret: string, payload: string, encoding: 'hex' | 'base64'): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest(encoding);
+
+export const signaturesMatch = (expected: string, actual: string | undefined): boolean => {
+  if (!actual || actual.length !== expected.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+};
+
+// Venues accept requests stamped up to recvWindow in the past and about a second in the future
+export const isWithinWindow = (timestampMs: number, serverTimeMs: number, recvWindowMs: number): boolean =>
+  Number.isFinite(timestampMs) && timestampMs < serverTimeMs + 1000 && serverTimeMs - timestampMs <= recvWindowMs;
+
+// Query string exactly as the client sent it, in the client's parameter order
+export const rawQuery = (req: express.Request): string => {
+  const index = req.originalUrl.indexOf('?');
+  return index === -1 ? '' : req.originalUrl.slice(index + 1);
+};
+
+export const rawBody = (req: express.Request): string => (req as RawBodyRequest).rawBody || '';
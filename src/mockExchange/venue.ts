@@ -0,0 +1,421 @@
+import { EventEmitter } from 'events';
+import { ExchangeBroker } from '../services/brokerIntegrations/endpoints';
+import { MockInstrument, VenueScenario } from './scenario';
+
+export type MockOrderStatus = 'new' | 'partially_filled' | 'filled' | 'cancelled' | 'expired';
+
+export interface MockOrder {
+  id: number;
+  clientOrderId?: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  timeInForce: 'GTC' | 'IOC' | 'FOK';
+  quantity: number;
+  price?: number;
+  reduceOnly: boolean;
+  status: MockOrderStatus;
+  filledQuantity: number;
+  averagePrice: number;
+  fees: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MockFill {
+  id: number;
+  orderId: number;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee: number;
+  feeAsset: string;
+  isMaker: boolean;
+  timestamp: number;
+}
+
+export interface MockPositionView {
+  symbol: string;
+  size: number;
+  entryPrice: number;
+  markPrice: number;
+  unrealizedPnl: number;
+  notional: number;
+}
+
+export interface NewMockOrder {
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  quantity: number;
+  price?: number;
+  timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  reduceOnly?: boolean;
+  clientOrderId?: string;
+}
+
+// Venue handlers translate this into each exchange's own error codes
+export class MockRejection extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'unknown_symbol' | 'invalid_quantity' | 'invalid_price' | 'insufficient_margin' | 'reduce_only' | 'duplicate_client_order_id'
+  ) {
+    super(message);
+    this.name = 'MockRejection';
+  }
+}
+
+const decimals = (step: number): number => {
+  const text = step.toString();
+  return text.includes('.') ? text.split('.')[1].length : 0;
+};
+
+// One exchange's account, order book and price board. Emits 'order' on every order change,
+// 'fill' for each execution and 'ticker' whenever a price is published.
+export class MockVenue extends EventEmitter {
+  private instruments: Map<string, MockInstrument> = new Map();
+  private prices: Map<string, { price: number; open: number; volume: number }> = new Map();
+  private balances: Map<string, number> = new Map();
+  private positions: Map<string, { size: number; entryPrice: number }> = new Map();
+  private orders: Map<number, MockOrder> = new Map();
+  private fills: MockFill[] = [];
+  private executing: Set<number> = new Set();
+  private timers: NodeJS.Timeout[] = [];
+  private nextOrderId = 1000001;
+  private nextFillId = 5000001;
+
+  constructor(
+    public readonly name: ExchangeBroker,
+    public readonly scenario: VenueScenario,
+    private readonly clockOffsetMs: number = 0
+  ) {
+    super();
+    this.reset();
+  }
+
+  reset(): void {
+    this.instruments = new Map(this.scenario.instruments.map(instrument => [instrument.symbol, instrument]));
+    this.prices = new Map(Object.entries(this.scenario.prices).map(([symbol, price]) => [symbol, { price, open: price, volume: 0 }]));
+    this.balances = new Map(Object.entries(this.scenario.balances));
+    this.positions = new Map(this.scenario.positions.map(position => [position.symbol, { size: position.size, entryPrice: position.entryPrice }]));
+    this.orders.clear();
+    this.fills = [];
+    this.executing.clear();
+  }
+
+  start(tickerIntervalMs: number): void {
+    for (const step of this.scenario.script) {
+      this.timers.push(setTimeout(() => this.setPrice(step.symbol, step.price), step.afterMs));
+    }
+
+    this.timers.push(setInterval(() => {
+      for (const symbol of Array.from(this.prices.keys())) {
+        this.emit('ticker', symbol);
+      }
+    }, tickerIntervalMs));
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  now(): number {
+    return Date.now() + this.clockOffsetMs;
+  }
+
+  getInstruments(): MockInstrument[] {
+    return Array.from(this.instruments.values());
+  }
+
+  getInstrument(symbol: string): MockInstrument | undefined {
+    return this.instruments.get(symbol);
+  }
+
+  getTicker(symbol: string): { price: number; open: number; volume: number } | undefined {
+    return this.prices.get(symbol);
+  }
+
+  setPrice(symbol: string, price: number): void {
+    const ticker = this.prices.get(symbol);
+    if (!ticker) {
+      this.prices.set(symbol, { price, open: price, volume: 0 });
+    } else {
+      ticker.price = price;
+    }
+
+    this.emit('ticker', symbol);
+    this.matchRestingOrders(symbol, price);
+  }
+
+  getBalances(): Array<{ asset: string; balance: number; available: number }> {
+    const margin = this.usedMargin();
+
+    return Array.from(this.balances.entries()).map(([asset, balance]) => ({
+      asset,
+      balance,
+      available: Math.max(0, balance - (margin.get(asset) || 0)),
+    }));
+  }
+
+  getPositions(): MockPositionView[] {
+    return Array.from(this.positions.entries())
+      .filter(([, position]) => position.size !== 0)
+      .map(([symbol, position]) => {
+        const contractValue = this.instruments.get(symbol)?.contractValue || 1;
+        const markPrice = this.prices.get(symbol)?.price || position.entryPrice;
+
+        return {
+          symbol,
+          size: position.size,
+          entryPrice: position.entryPrice,
+          markPrice,
+          unrealizedPnl: (markPrice - position.entryPrice) * position.size * contractValue,
+          notional: Math.abs(position.size) * contractValue * markPrice,
+        };
+      });
+  }
+
+  getOrder(id: number): MockOrder | undefined {
+    return this.orders.get(id);
+  }
+
+  getFills(orderId: number): MockFill[] {
+    return this.fills.filter(fill => fill.orderId === orderId);
+  }
+
+  findOrderByClientId(clientOrderId: string): MockOrder | undefined {
+    return Array.from(this.orders.values()).find(order => order.clientOrderId === clientOrderId);
+  }
+
+  getOpenOrders(symbol?: string): MockOrder[] {
+    return Array.from(this.orders.values())
+      .filter(order => order.status === 'new' || order.status === 'partially_filled')
+      .filter(order => !symbol || order.symbol === symbol);
+  }
+
+  placeOrder(input: NewMockOrder): MockOrder {
+    const instrument = this.instruments.get(input.symbol);
+    const ticker = this.prices.get(input.symbol);
+    if (!instrument || !ticker) {
+      throw new MockRejection(`Unknown symbol ${input.symbol}`, 'unknown_symbol');
+    }
+
+    if (input.clientOrderId && this.findOrderByClientId(input.clientOrderId)) {
+      throw new MockRejection(`Duplicate client order id ${input.clientOrderId}`, 'duplicate_client_order_id');
+    }
+
+    let quantity = this.roundToLot(input.quantity, instrument);
+    if (!(quantity >= instrument.minQuantity) || Math.abs(quantity - input.quantity) > instrument.lotSize / 1e6) {
+      throw new MockRejection(`Quantity ${input.quantity} is not a multiple of ${instrument.lotSize} above ${instrument.minQuantity}`, 'invalid_quantity');
+    }
+
+    if (input.type === 'limit') {
+      const ticks = (input.price || 0) / instrument.tickSize;
+      if (!input.price || Math.abs(ticks - Math.round(ticks)) > 1e-6) {
+        throw new MockRejection(`Price ${input.price} is not a multiple of ${instrument.tickSize}`, 'invalid_price');
+      }
+    }
+
+    const position = this.positions.get(input.symbol)?.size || 0;
+    const signed = input.side === 'buy' ? quantity : -quantity;
+
+    if (input.reduceOnly) {
+      // Reduce-only orders are trimmed to the open position and refused when there is nothing to reduce
+      if (position === 0 || Math.sign(position) === Math.sign(signed)) {
+        throw new MockRejection('Reduce-only order would increase the position', 'reduce_only');
+      }
+      quantity = Math.min(quantity, Math.abs(position));
+    } else {
+      const referencePrice = input.price || ticker.price;
+      const margin = (quantity * instrument.contractValue * referencePrice) / this.scenario.execution.leverage;
+      const available = this.getBalances().find(balance => balance.asset === instrument.settleAsset)?.available || 0;
+      if (margin > available) {
+        throw new MockRejection(`Order needs ${margin.toFixed(2)} ${instrument.settleAsset} margin, ${available.toFixed(2)} available`, 'insufficient_margin');
+      }
+    }
+
+    const now = this.now();
+    const order: MockOrder = {
+      id: this.nextOrderId++,
+      clientOrderId: input.clientOrderId,
+      symbol: input.symbol,
+      side: input.side,
+      type: input.type,
+      timeInForce: input.timeInForce || 'GTC',
+      quantity,
+      price: input.type === 'limit' ? input.price : undefined,
+      reduceOnly: !!input.reduceOnly,
+      status: 'new',
+      filledQuantity: 0,
+      averagePrice: 0,
+      fees: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.orders.set(order.id, order);
+    this.emitOrder(order);
+
+    // Acknowledge first, then execute, the way venues answer placement before reporting fills
+    if (this.crosses(order, ticker.price)) {
+      this.scheduleFills(order, order.type === 'market' ? ticker.price : order.price!, false);
+    } else if (order.timeInForce !== 'GTC') {
+      this.timers.push(setTimeout(() => this.finish(order, 'expired'), 0));
+    }
+
+    return order;
+  }
+
+  cancelOrder(id: number): MockOrder | undefined {
+    const order = this.orders.get(id);
+    if (!order || (order.status !== 'new' && order.status !== 'partially_filled')) {
+      return undefined;
+    }
+
+    this.finish(order, 'cancelled');
+    return order;
+  }
+
+  private usedMargin(): Map<string, number> {
+    const margin = new Map<string, number>();
+    const add = (symbol: string, notional: number) => {
+      const asset = this.instruments.get(symbol)?.settleAsset;
+      if (asset) {
+        margin.set(asset, (margin.get(asset) || 0) + notional / this.scenario.execution.leverage);
+      }
+    };
+
+    this.getPositions().forEach(position => add(position.symbol, position.notional));
+    this.getOpenOrders()
+      .filter(order => !order.reduceOnly)
+      .forEach(order => {
+        const contractValue = this.instruments.get(order.symbol)?.contractValue || 1;
+        const price = order.price || this.prices.get(order.symbol)?.price || 0;
+        add(order.symbol, (order.quantity - order.filledQuantity) * contractValue * price);
+      });
+
+    return margin;
+  }
+
+  private roundToLot(quantity: number, instrument: MockInstrument): number {
+    return Number((Math.round(quantity / instrument.lotSize) * instrument.lotSize).toFixed(decimals(instrument.lotSize)));
+  }
+
+  private crosses(order: MockOrder, price: number): boolean {
+    if (order.type === 'market') {
+      return true;
+    }
+    return order.side === 'buy' ? price <= order.price! : price >= order.price!;
+  }
+
+  private matchRestingOrders(symbol: string, price: number): void {
+    this.getOpenOrders(symbol)
+      .filter(order => order.type === 'limit' && !this.executing.has(order.id) && this.crosses(order, price))
+      .forEach(order => this.scheduleFills(order, order.price!, true));
+  }
+
+  private scheduleFills(order: MockOrder, price: number, isMaker: boolean): void {
+    const instrument = this.instruments.get(order.symbol)!;
+    const { fillSteps, fillIntervalMs } = this.scenario.execution;
+    const steps = Math.max(1, Math.floor(fillSteps));
+    const slice = Math.max(instrument.lotSize, this.roundToLot(order.quantity / steps, instrument));
+
+    // A later price move must not schedule the same order twice
+    this.executing.add(order.id);
+
+    for (let step = 1; step <= steps; step++) {
+      this.timers.push(setTimeout(() => {
+        // Skip orders that finished meanwhile or were dropped by a reset
+        if (this.orders.get(order.id) !== order || (order.status !== 'new' && order.status !== 'partially_filled')) {
+          return;
+        }
+        const remaining = Number((order.quantity - order.filledQuantity).toFixed(decimals(instrument.lotSize)));
+        const quantity = step === steps ? remaining : Math.min(slice, remaining);
+        if (quantity > 0) {
+          this.fill(order, quantity, price, isMaker);
+        }
+      }, fillIntervalMs * step));
+    }
+  }
+
+  private fill(order: MockOrder, quantity: number, price: number, isMaker: boolean): void {
+    const instrument = this.instruments.get(order.symbol)!;
+    const rate = isMaker ? this.scenario.execution.makerFee : this.scenario.execution.takerFee;
+    const fee = quantity * instrument.contractValue * price * rate;
+    const timestamp = this.now();
+
+    this.applyToPosition(order.symbol, order.side === 'buy' ? quantity : -quantity, price, fee, instrument);
+
+    order.averagePrice = (order.averagePrice * order.filledQuantity + price * quantity) / (order.filledQuantity + quantity);
+    order.filledQuantity = Number((order.filledQuantity + quantity).toFixed(decimals(instrument.lotSize)));
+    order.fees += fee;
+    order.status = order.filledQuantity >= order.quantity ? 'filled' : 'partially_filled';
+    order.updatedAt = timestamp;
+    if (order.status === 'filled') {
+      this.executing.delete(order.id);
+    }
+
+    const fill: MockFill = {
+      id: this.nextFillId++,
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity,
+      price,
+      fee,
+      feeAsset: instrument.settleAsset,
+      isMaker,
+      timestamp,
+    };
+
+    this.fills.push(fill);
+    this.emit('fill', fill, { ...order });
+    this.emitOrder(order);
+
+    const ticker = this.prices.get(order.symbol);
+    if (ticker) {
+      ticker.volume += quantity * instrument.contractValue;
+    }
+  }
+
+  // Realised PnL and fees settle into the wallet as each fill lands
+  private applyToPosition(symbol: string, signedQuantity: number, price: number, fee: number, instrument: MockInstrument): void {
+    const position = this.positions.get(symbol) || { size: 0, entryPrice: 0 };
+    let realized = 0;
+
+    if (position.size === 0 || Math.sign(position.size) === Math.sign(signedQuantity)) {
+      const size = position.size + signedQuantity;
+      position.entryPrice = (position.entryPrice * Math.abs(position.size) + price * Math.abs(signedQuantity)) / Math.abs(size);
+      position.size = size;
+    } else {
+      const closed = Math.min(Math.abs(position.size), Math.abs(signedQuantity));
+      realized = (price - position.entryPrice) * closed * Math.sign(position.size) * instrument.contractValue;
+      const size = Number((position.size + signedQuantity).toFixed(decimals(instrument.lotSize)));
+      if (size === 0) {
+        position.entryPrice = 0;
+      } else if (Math.sign(size) !== Math.sign(position.size)) {
+        position.entryPrice = price;
+      }
+      position.size = size;
+    }
+
+    this.positions.set(symbol, position);
+    this.balances.set(instrument.settleAsset, (this.balances.get(instrument.settleAsset) || 0) + realized - fee);
+  }
+
+  private finish(order: MockOrder, status: 'cancelled' | 'expired'): void {
+    if (order.status !== 'new' && order.status !== 'partially_filled') {
+      return;
+    }
+    order.status = status;
+    order.updatedAt = this.now();
+    this.executing.delete(order.id);
+    this.emitOrder(order);
+  }
+
+  private emitOrder(order: MockOrder): void {
+    this.emit('order', { ...order });
+  }
+}
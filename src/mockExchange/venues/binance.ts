@@ -0,0 +1,359 @@
+import crypto from 'crypto';
+import express from 'express';
+import WebSocket from 'ws';
+import { VenueHandler, parseMessage, percentChange, sendJson } from '../handler';
+import { hmac, isWithinWindow, rawBody, rawQuery, signaturesMatch } from '../signing';
+import { MockFill, MockOrder, MockRejection, MockVenue } from '../venue';
+
+const ORDER_STATUS: Record<MockOrder['status'], string> = {
+  new: 'NEW',
+  partially_filled: 'PARTIALLY_FILLED',
+  filled: 'FILLED',
+  cancelled: 'CANCELED',
+  expired: 'EXPIRED',
+};
+
+const REJECTION_CODES: Record<MockRejection['reason'], number> = {
+  unknown_symbol: -1121,
+  invalid_quantity: -4003,
+  invalid_price: -4014,
+  insufficient_margin: -2019,
+  reduce_only: -2022,
+  duplicate_client_order_id: -4116,
+};
+
+export const createBinanceHandler = (venue: MockVenue): VenueHandler => {
+  const { credentials } = venue.scenario;
+  const router = express.Router();
+  const listenKeys = new Set<string>();
+  const marketSockets = new Map<WebSocket, Set<string>>();
+  const userSockets = new Set<WebSocket>();
+
+  const formatOrder = (order: MockOrder) => ({
+    orderId: order.id,
+    symbol: order.symbol,
+    status: ORDER_STATUS[order.status],
+    clientOrderId: order.clientOrderId || `mock_${order.id}`,
+    price: String(order.price || 0),
+    avgPrice: String(order.averagePrice),
+    origQty: String(order.quantity),
+    executedQty: String(order.filledQuantity),
+    cumQuote: String(order.filledQuantity * order.averagePrice),
+    timeInForce: order.timeInForce,
+    type: order.type.toUpperCase(),
+    reduceOnly: order.reduceOnly,
+    side: order.side.toUpperCase(),
+    time: order.createdAt,
+    updateTime: order.updatedAt,
+  });
+
+  const formatTicker = (symbol: string) => {
+    const ticker = venue.getTicker(symbol)!;
+    return {
+      symbol,
+      lastPrice: String(ticker.price),
+      openPrice: String(ticker.open),
+      priceChange: String(ticker.price - ticker.open),
+      priceChangePercent: percentChange(ticker.price, ticker.open).toFixed(3),
+      volume: String(ticker.volume),
+      closeTime: venue.now(),
+    };
+  };
+
+  const requireApiKey: express.RequestHandler = (req, res, next) => {
+    if (req.get('X-MBX-APIKEY') !== credentials.apiKey) {
+      res.status(401).json({ code: -2015, msg: 'Invalid API-key, IP, or permissions for action.' });
+      return;
+    }
+    next();
+  };
+
+  // totalParams is the query string followed by any form body; JSON bodies are not signed
+  const requireSignature: express.RequestHandler = (req, res, next) => {
+    const params = new URLSearchParams(rawQuery(req));
+    const signature = params.get('signature') || undefined;
+    params.delete('signature');
+
+    const body = req.is('application/x-www-form-urlencoded') ? rawBody(req) : '';
+    const expected = hmac(credentials.apiSecret, params.toString() + body, 'hex');
+    if (!signaturesMatch(expected, signature)) {
+      res.status(400).json({ code: -1022, msg: 'Signature for this request is not valid.' });
+      return;
+    }
+
+    const recvWindow = parseInt(params.get('recvWindow') || '5000');
+    if (!isWithinWindow(parseInt(params.get('timestamp') || ''), venue.now(), recvWindow)) {
+      res.status(400).json({ code: -1021, msg: 'Timestamp for this request is outside of the recvWindow.' });
+      return;
+    }
+
+    next();
+  };
+
+  const param = (req: express.Request, name: string): string | undefined => {
+    const value = req.query[name] ?? req.body?.[name];
+    return value === undefined ? undefined : String(value);
+  };
+
+  const findOrder = (req: express.Request): MockOrder | undefined => {
+    const orderId = param(req, 'orderId');
+    const clientOrderId = param(req, 'origClientOrderId');
+    const order = orderId ? venue.getOrder(parseInt(orderId)) : clientOrderId ? venue.findOrderByClientId(clientOrderId) : undefined;
+    return order && order.symbol === param(req, 'symbol') ? order : undefined;
+  };
+
+  router.get('/fapi/v1/time', (req, res) => {
+    res.json({ serverTime: venue.now() });
+  });
+
+  router.get('/fapi/v1/exchangeInfo', (req, res) => {
+    res.json({
+      timezone: 'UTC',
+      serverTime: venue.now(),
+      symbols: venue.getInstruments().map(instrument => ({
+        symbol: instrument.symbol,
+        pair: instrument.symbol,
+        contractType: 'PERPETUAL',
+        status: 'TRADING',
+        baseAsset: instrument.baseAsset,
+        quoteAsset: instrument.quoteAsset,
+        marginAsset: instrument.settleAsset,
+        filters: [
+          { filterType: 'PRICE_FILTER', tickSize: String(instrument.tickSize) },
+          { filterType: 'LOT_SIZE', stepSize: String(instrument.lotSize), minQty: String(instrument.minQuantity) },
+          { filterType: 'MIN_NOTIONAL', notional: String(instrument.minNotional || 0) },
+        ],
+      })),
+    });
+  });
+
+  router.get('/fapi/v1/ticker/24hr', (req, res) => {
+    const symbol = req.query.symbol as string | undefined;
+    if (!symbol) {
+      res.json(venue.getInstruments().filter(instrument => venue.getTicker(instrument.symbol)).map(instrument => formatTicker(instrument.symbol)));
+      return;
+    }
+    if (!venue.getTicker(symbol)) {
+      res.status(400).json({ code: -1121, msg: 'Invalid symbol.' });
+      return;
+    }
+    res.json(formatTicker(symbol));
+  });
+
+  router.get('/fapi/v2/account', requireApiKey, requireSignature, (req, res) => {
+    const balances = venue.getBalances();
+    res.json({
+      canTrade: true,
+      canDeposit: true,
+      canWithdraw: true,
+      totalWalletBalance: String(balances.reduce((sum, balance) => sum + balance.balance, 0)),
+      availableBalance: String(balances.reduce((sum, balance) => sum + balance.available, 0)),
+      assets: balances.map(balance => ({
+        asset: balance.asset,
+        walletBalance: String(balance.balance),
+        availableBalance: String(balance.available),
+      })),
+      positions: venue.getPositions().map(position => ({
+        symbol: position.symbol,
+        positionAmt: String(position.size),
+        entryPrice: String(position.entryPrice),
+        unrealizedProfit: String(position.unrealizedPnl),
+      })),
+    });
+  });
+
+  router.get('/fapi/v2/balance', requireApiKey, requireSignature, (req, res) => {
+    res.json(venue.getBalances().map(balance => ({
+      accountAlias: 'mock',
+      asset: balance.asset,
+      balance: String(balance.balance),
+      crossWalletBalance: String(balance.balance),
+      availableBalance: String(balance.available),
+      maxWithdrawAmount: String(balance.available),
+      updateTime: venue.now(),
+    })));
+  });
+
+  router.get('/fapi/v2/positionRisk', requireApiKey, requireSignature, (req, res) => {
+    const leverage = venue.scenario.execution.leverage;
+    res.json(venue.getPositions().map(position => ({
+      symbol: position.symbol,
+      positionAmt: String(position.size),
+      entryPrice: String(position.entryPrice),
+      markPrice: String(position.markPrice),
+      unRealizedProfit: String(position.unrealizedPnl),
+      leverage: String(leverage),
+      notional: String(position.notional * Math.sign(position.size)),
+      percentage: String(position.notional > 0 ? (position.unrealizedPnl / (position.notional / leverage)) * 100 : 0),
+      updateTime: venue.now(),
+    })));
+  });
+
+  router.post('/fapi/v1/order', requireApiKey, requireSignature, (req, res) => {
+    try {
+      const order = venue.placeOrder({
+        symbol: param(req, 'symbol') || '',
+        side: (param(req, 'side') || '').toLowerCase() as MockOrder['side'],
+        type: (param(req, 'type') || '').toLowerCase() as MockOrder['type'],
+        quantity: parseFloat(param(req, 'quantity') || '0'),
+        price: param(req, 'price') ? parseFloat(param(req, 'price')!) : undefined,
+        timeInForce: param(req, 'timeInForce') as MockOrder['timeInForce'] | undefined,
+        reduceOnly: param(req, 'reduceOnly') === 'true',
+        clientOrderId: param(req, 'newClientOrderId'),
+      });
+      res.json(formatOrder(order));
+    } catch (error) {
+      if (error instanceof MockRejection) {
+        res.status(400).json({ code: REJECTION_CODES[error.reason], msg: error.message });
+        return;
+      }
+      throw error;
+    }
+  });
+
+  router.delete('/fapi/v1/order', requireApiKey, requireSignature, (req, res) => {
+    const order = findOrder(req);
+    if (!order || !venue.cancelOrder(order.id)) {
+      res.status(400).json({ code: -2011, msg: 'Unknown order sent.' });
+      return;
+    }
+    res.json(formatOrder(order));
+  });
+
+  router.get('/fapi/v1/order', requireApiKey, requireSignature, (req, res) => {
+    const order = findOrder(req);
+    if (!order) {
+      res.status(400).json({ code: -2013, msg: 'Order does not exist.' });
+      return;
+    }
+    res.json(formatOrder(order));
+  });
+
+  router.get('/fapi/v1/userTrades', requireApiKey, requireSignature, (req, res) => {
+    const order = findOrder(req);
+    res.json((order ? venue.getFills(order.id) : []).map(fill => ({
+      id: fill.id,
+      orderId: fill.orderId,
+      symbol: fill.symbol,
+      side: fill.side.toUpperCase(),
+      price: String(fill.price),
+      qty: String(fill.quantity),
+      quoteQty: String(fill.price * fill.quantity),
+      commission: String(fill.fee),
+      commissionAsset: fill.feeAsset,
+      maker: fill.isMaker,
+      time: fill.timestamp,
+    })));
+  });
+
+  router.get('/fapi/v1/openOrders', requireApiKey, requireSignature, (req, res) => {
+    res.json(venue.getOpenOrders(req.query.symbol as string | undefined).map(formatOrder));
+  });
+
+  // One listen key per account, as on Binance; creating it again returns the same key
+  router.post('/fapi/v1/listenKey', requireApiKey, (req, res) => {
+    if (listenKeys.size === 0) {
+      listenKeys.add(crypto.randomBytes(32).toString('hex'));
+    }
+    res.json({ listenKey: Array.from(listenKeys)[0] });
+  });
+
+  router.put('/fapi/v1/listenKey', requireApiKey, (req, res) => {
+    res.json({});
+  });
+
+  router.delete('/fapi/v1/listenKey', requireApiKey, (req, res) => {
+    listenKeys.clear();
+    res.json({});
+  });
+
+  const orderEvent = (order: MockOrder, executionType: string, fill?: MockFill) => ({
+    e: 'ORDER_TRADE_UPDATE',
+    E: venue.now(),
+    T: fill?.timestamp || order.updatedAt,
+    o: {
+      s: order.symbol,
+      c: order.clientOrderId || `mock_${order.id}`,
+      S: order.side.toUpperCase(),
+      o: order.type.toUpperCase(),
+      f: order.timeInForce,
+      q: String(order.quantity),
+      p: String(order.price || 0),
+      ap: String(order.averagePrice),
+      x: executionType,
+      X: ORDER_STATUS[order.status],
+      i: order.id,
+      l: String(fill?.quantity || 0),
+      z: String(order.filledQuantity),
+      L: String(fill?.price || 0),
+      N: fill?.feeAsset,
+      n: String(fill?.fee || 0),
+      T: fill?.timestamp || order.updatedAt,
+      t: fill?.id || 0,
+      m: fill?.isMaker || false,
+      R: order.reduceOnly,
+    },
+  });
+
+  // Fills carry the order's cumulative state, so only placement and cancellation need their own event
+  venue.on('order', (order: MockOrder) => {
+    const executionType = order.status === 'new' ? 'NEW' : order.status === 'cancelled' ? 'CANCELED' : order.status === 'expired' ? 'EXPIRED' : null;
+    if (executionType) {
+      userSockets.forEach(ws => sendJson(ws, orderEvent(order, executionType)));
+    }
+  });
+
+  venue.on('fill', (fill: MockFill, order: MockOrder) => {
+    userSockets.forEach(ws => sendJson(ws, orderEvent(order, 'TRADE', fill)));
+  });
+
+  venue.on('ticker', (symbol: string) => {
+    const stream = `${symbol.toLowerCase()}@ticker`;
+    marketSockets.forEach((streams, ws) => {
+      if (streams.has(stream)) {
+        const ticker = formatTicker(symbol);
+        sendJson(ws, {
+          e: '24hrTicker',
+          E: venue.now(),
+          s: symbol,
+          p: ticker.priceChange,
+          P: ticker.priceChangePercent,
+          c: ticker.lastPrice,
+          o: ticker.openPrice,
+          v: ticker.volume,
+        });
+      }
+    });
+  });
+
+  return {
+    router,
+    ownsSocket: (path) => path === '/binance/ws' || path.startsWith('/binance/ws/'),
+    handleSocket: (ws, path) => {
+      const listenKey = path.slice('/binance/ws/'.length);
+
+      if (path !== '/binance/ws') {
+        if (!listenKeys.has(listenKey)) {
+          ws.close(1008, 'Invalid listen key');
+          return;
+        }
+        userSockets.add(ws);
+        ws.on('close', () => userSockets.delete(ws));
+        return;
+      }
+
+      const streams = new Set<string>();
+      marketSockets.set(ws, streams);
+      ws.on('close', () => marketSockets.delete(ws));
+      ws.on('message', (data) => {
+        const message = parseMessage(data);
+        if (message?.method === 'SUBSCRIBE') {
+          (message.params || []).forEach((stream: string) => streams.add(stream));
+        } else if (message?.method === 'UNSUBSCRIBE') {
+          (message.params || []).forEach((stream: string) => streams.delete(stream));
+        }
+        sendJson(ws, { result: null, id: message?.id });
+      });
+    },
+  };
+};
@@ -0,0 +1,298 @@
+import express from 'express';
+import WebSocket from 'ws';
+import { VenueHandler, parseMessage, sendJson } from '../handler';
+import { hmac, isWithinWindow, rawBody, rawQuery, signaturesMatch } from '../signing';
+import { MockFill, MockOrder, MockRejection, MockVenue } from '../venue';
+
+const ORDER_STATUS: Record<MockOrder['status'], string> = {
+  new: 'New',
+  partially_filled: 'PartiallyFilled',
+  filled: 'Filled',
+  cancelled: 'Cancelled',
+  expired: 'Cancelled',
+};
+
+const REJECTIONS: Record<MockRejection['reason'], number> = {
+  unknown_symbol: 10001,
+  invalid_quantity: 10001,
+  invalid_price: 10001,
+  insufficient_margin: 110007,
+  reduce_only: 110017,
+  duplicate_client_order_id: 110072,
+};
+
+export const createBybitHandler = (venue: MockVenue): VenueHandler => {
+  const { credentials } = venue.scenario;
+  const router = express.Router();
+  const publicSockets = new Map<WebSocket, Set<string>>();
+  const privateSockets = new Map<WebSocket, Set<string>>();
+
+  const reply = (res: express.Response, result: unknown, retCode: number = 0, retMsg: string = 'OK') => {
+    res.json({ retCode, retMsg, result, retExtInfo: {}, time: venue.now() });
+  };
+
+  const formatOrder = (order: MockOrder) => ({
+    orderId: String(order.id),
+    orderLinkId: order.clientOrderId || '',
+    symbol: order.symbol,
+    side: order.side === 'buy' ? 'Buy' : 'Sell',
+    orderType: order.type === 'market' ? 'Market' : 'Limit',
+    orderStatus: ORDER_STATUS[order.status],
+    timeInForce: order.timeInForce,
+    qty: String(order.quantity),
+    price: String(order.price || 0),
+    avgPrice: order.filledQuantity > 0 ? String(order.averagePrice) : '',
+    cumExecQty: String(order.filledQuantity),
+    cumExecValue: String(order.filledQuantity * order.averagePrice),
+    cumExecFee: String(order.fees),
+    reduceOnly: order.reduceOnly,
+    createdTime: String(order.createdAt),
+    updatedTime: String(order.updatedAt),
+  });
+
+  const formatTicker = (symbol: string) => {
+    const ticker = venue.getTicker(symbol)!;
+    return {
+      symbol,
+      lastPrice: String(ticker.price),
+      prevPrice24h: String(ticker.open),
+      price24hPcnt: String(ticker.open > 0 ? (ticker.price - ticker.open) / ticker.open : 0),
+      volume24h: String(ticker.volume),
+    };
+  };
+
+  // GET requests sign the query string, everything else signs the raw JSON body
+  const signed: express.RequestHandler = (req, res, next) => {
+    if (req.get('X-BAPI-API-KEY') !== credentials.apiKey) {
+      res.status(401).json({ retCode: 10003, retMsg: 'API key is invalid.', result: {}, time: venue.now() });
+      return;
+    }
+
+    const timestamp = req.get('X-BAPI-TIMESTAMP') || '';
+    const recvWindow = req.get('X-BAPI-RECV-WINDOW') || '5000';
+    const payload = req.method === 'GET' ? new URLSearchParams(rawQuery(req)).toString() : rawBody(req);
+    const expected = hmac(credentials.apiSecret, timestamp + credentials.apiKey + recvWindow + payload, 'hex');
+
+    if (!signaturesMatch(expected, req.get('X-BAPI-SIGN'))) {
+      reply(res, {}, 10004, 'error sign! origin_string[' + timestamp + credentials.apiKey + recvWindow + payload + ']');
+      return;
+    }
+
+    if (!isWithinWindow(parseInt(timestamp), venue.now(), parseInt(recvWindow))) {
+      reply(res, {}, 10002, `invalid request, please check your server timestamp or recv_window param. req_timestamp[${timestamp}],server_timestamp[${venue.now()}],recv_window[${recvWindow}]`);
+      return;
+    }
+
+    next();
+  };
+
+  const param = (req: express.Request, name: string): string | undefined => {
+    const value = req.method === 'GET' ? req.query[name] : req.body?.[name];
+    return value === undefined || value === '' ? undefined : String(value);
+  };
+
+  const findOrder = (req: express.Request): MockOrder | undefined => {
+    const orderId = param(req, 'orderId');
+    const orderLinkId = param(req, 'orderLinkId');
+    return orderId ? venue.getOrder(parseInt(orderId)) : orderLinkId ? venue.findOrderByClientId(orderLinkId) : undefined;
+  };
+
+  router.get('/v5/market/time', (req, res) => {
+    const now = venue.now();
+    reply(res, { timeSecond: String(Math.floor(now / 1000)), timeNano: `${now}000000` });
+  });
+
+  router.get('/v5/market/instruments-info', (req, res) => {
+    reply(res, {
+      category: 'linear',
+      list: venue.getInstruments().map(instrument => ({
+        symbol: instrument.symbol,
+        contractType: 'LinearPerpetual',
+        status: 'Trading',
+        baseCoin: instrument.baseAsset,
+        quoteCoin: instrument.quoteAsset,
+        settleCoin: instrument.settleAsset,
+        priceFilter: { tickSize: String(instrument.tickSize) },
+        lotSizeFilter: {
+          qtyStep: String(instrument.lotSize),
+          minOrderQty: String(instrument.minQuantity),
+          minNotionalValue: String(instrument.minNotional || 0),
+        },
+      })),
+    });
+  });
+
+  router.get('/v5/market/tickers', (req, res) => {
+    const symbol = req.query.symbol as string | undefined;
+    const symbols = symbol ? [symbol] : venue.getInstruments().map(instrument => instrument.symbol);
+    reply(res, { category: 'linear', list: symbols.filter(name => venue.getTicker(name)).map(formatTicker) });
+  });
+
+  router.get('/v5/account/info', signed, (req, res) => {
+    reply(res, { unifiedMarginStatus: 4, marginMode: 'REGULAR_MARGIN', updatedTime: String(venue.now()) });
+  });
+
+  router.get('/v5/account/wallet-balance', signed, (req, res) => {
+    const balances = venue.getBalances();
+    reply(res, {
+      list: [{
+        accountType: 'UNIFIED',
+        totalWalletBalance: String(balances.reduce((sum, balance) => sum + balance.balance, 0)),
+        coin: balances.map(balance => ({
+          coin: balance.asset,
+          walletBalance: String(balance.balance),
+          equity: String(balance.balance),
+          availableToWithdraw: String(balance.available),
+        })),
+      }],
+    });
+  });
+
+  router.get('/v5/position/list', signed, (req, res) => {
+    const symbol = req.query.symbol as string | undefined;
+    reply(res, {
+      category: 'linear',
+      list: venue.getPositions()
+        .filter(position => !symbol || position.symbol === symbol)
+        .map(position => ({
+          symbol: position.symbol,
+          side: position.size > 0 ? 'Buy' : 'Sell',
+          size: String(Math.abs(position.size)),
+          avgPrice: String(position.entryPrice),
+          markPrice: String(position.markPrice),
+          positionValue: String(position.notional),
+          unrealisedPnl: String(position.unrealizedPnl),
+          leverage: String(venue.scenario.execution.leverage),
+          updatedTime: String(venue.now()),
+        })),
+    });
+  });
+
+  router.post('/v5/order/create', signed, (req, res) => {
+    try {
+      const order = venue.placeOrder({
+        symbol: param(req, 'symbol') || '',
+        side: param(req, 'side') === 'Buy' ? 'buy' : 'sell',
+        type: param(req, 'orderType') === 'Market' ? 'market' : 'limit',
+        quantity: parseFloat(param(req, 'qty') || '0'),
+        price: param(req, 'price') ? parseFloat(param(req, 'price')!) : undefined,
+        timeInForce: param(req, 'timeInForce') as MockOrder['timeInForce'] | undefined,
+        reduceOnly: param(req, 'reduceOnly') === 'true',
+        clientOrderId: param(req, 'orderLinkId'),
+      });
+      reply(res, { orderId: String(order.id), orderLinkId: order.clientOrderId || '' });
+    } catch (error) {
+      if (error instanceof MockRejection) {
+        reply(res, {}, REJECTIONS[error.reason], error.message);
+        return;
+      }
+      throw error;
+    }
+  });
+
+  router.post('/v5/order/cancel', signed, (req, res) => {
+    const order = findOrder(req);
+    if (!order || !venue.cancelOrder(order.id)) {
+      reply(res, {}, 110001, 'order not exists or too late to cancel');
+      return;
+    }
+    reply(res, { orderId: String(order.id), orderLinkId: order.clientOrderId || '' });
+  });
+
+  // A specific order is returned whatever its state; otherwise only working orders are listed
+  router.get('/v5/order/realtime', signed, (req, res) => {
+    const hasId = param(req, 'orderId') || param(req, 'orderLinkId');
+    const order = findOrder(req);
+    const orders = hasId ? (order ? [order] : []) : venue.getOpenOrders(param(req, 'symbol'));
+    reply(res, { category: 'linear', list: orders.map(formatOrder), nextPageCursor: '' });
+  });
+
+  const push = (topic: string, data: unknown[]) => {
+    privateSockets.forEach((topics, ws) => {
+      if (topics.has(topic)) {
+        sendJson(ws, { id: `${topic}-${venue.now()}`, topic, creationTime: venue.now(), data });
+      }
+    });
+  };
+
+  venue.on('order', (order: MockOrder) => push('order', [{ category: 'linear', ...formatOrder(order) }]));
+
+  venue.on('fill', (fill: MockFill, order: MockOrder) => push('execution', [{
+    category: 'linear',
+    symbol: fill.symbol,
+    orderId: String(fill.orderId),
+    orderLinkId: order.clientOrderId || '',
+    side: fill.side === 'buy' ? 'Buy' : 'Sell',
+    execId: String(fill.id),
+    execPrice: String(fill.price),
+    execQty: String(fill.quantity),
+    execFee: String(fill.fee),
+    execType: 'Trade',
+    isMaker: fill.isMaker,
+    execTime: String(fill.timestamp),
+  }]));
+
+  venue.on('ticker', (symbol: string) => {
+    const topic = `tickers.${symbol}`;
+    publicSockets.forEach((topics, ws) => {
+      if (topics.has(topic)) {
+        sendJson(ws, { topic, type: 'snapshot', ts: venue.now(), data: formatTicker(symbol) });
+      }
+    });
+  });
+
+  const handlePrivate = (ws: WebSocket) => {
+    let authenticated = false;
+    const topics = new Set<string>();
+
+    ws.on('close', () => privateSockets.delete(ws));
+    ws.on('message', (data) => {
+      const message = parseMessage(data);
+
+      if (message?.op === 'auth') {
+        const [apiKey, expires, signature] = message.args || [];
+        const expected = hmac(credentials.apiSecret, `GET/realtime${expires}`, 'hex');
+        authenticated = apiKey === credentials.apiKey && signaturesMatch(expected, signature) && Number(expires) > venue.now();
+        sendJson(ws, { success: authenticated, ret_msg: authenticated ? '' : 'Params Error', op: 'auth', conn_id: 'mock' });
+        return;
+      }
+
+      if (message?.op === 'ping') {
+        sendJson(ws, { success: true, ret_msg: 'pong', op: 'ping', conn_id: 'mock' });
+        return;
+      }
+
+      if (message?.op === 'subscribe') {
+        if (!authenticated) {
+          sendJson(ws, { success: false, ret_msg: 'Request not authorized', op: 'subscribe', conn_id: 'mock' });
+          return;
+        }
+        (message.args || []).forEach((topic: string) => topics.add(topic));
+        privateSockets.set(ws, topics);
+        sendJson(ws, { success: true, ret_msg: '', op: 'subscribe', conn_id: 'mock' });
+      }
+    });
+  };
+
+  const handlePublic = (ws: WebSocket) => {
+    const topics = new Set<string>();
+    publicSockets.set(ws, topics);
+
+    ws.on('close', () => publicSockets.delete(ws));
+    ws.on('message', (data) => {
+      const message = parseMessage(data);
+      if (message?.op === 'subscribe') {
+        (message.args || []).forEach((topic: string) => topics.add(topic));
+      } else if (message?.op === 'unsubscribe') {
+        (message.args || []).forEach((topic: string) => topics.delete(topic));
+      }
+      sendJson(ws, { success: true, ret_msg: message?.op === 'ping' ? 'pong' : '', op: message?.op, conn_id: 'mock' });
+    });
+  };
+
+  return {
+    router,
+    ownsSocket: (path) => path === '/bybit/v5/public/linear' || path === '/bybit/v5/private',
+    handleSocket: (ws, path) => (path === '/bybit/v5/private' ? handlePrivate(ws) : handlePublic(ws)),
+  };
+};
@@ -0,0 +1,312 @@
+import express from 'express';
+import WebSocket from 'ws';
+import { VenueHandler, parseMessage, percentChange, sendJson } from '../handler';
+import { hmac, isWithinWindow, rawBody, signaturesMatch } from '../signing';
+import { MockFill, MockOrder, MockRejection, MockVenue } from '../venue';
+
+const ORDER_STATE: Record<MockOrder['status'], string> = {
+  new: 'open',
+  partially_filled: 'open',
+  filled: 'closed',
+  cancelled: 'cancelled',
+  expired: 'cancelled',
+};
+
+const REJECTIONS: Record<MockRejection['reason'], string> = {
+  unknown_symbol: 'invalid_contract',
+  invalid_quantity: 'invalid_size',
+  invalid_price: 'invalid_price',
+  insufficient_margin: 'insufficient_margin',
+  reduce_only: 'reduce_only_violated',
+  duplicate_client_order_id: 'duplicate_client_order_id',
+};
+
+// Delta rejects signatures older than 5 seconds
+const REQUEST_WINDOW_MS = 5000;
+
+// Sockets carry microsecond epochs, REST carries ISO strings
+const micros = (ms: number): number => ms * 1000;
+
+export const createDeltaHandler = (venue: MockVenue): VenueHandler => {
+  const { credentials } = venue.scenario;
+  const router = express.Router();
+  const sockets = new Map<WebSocket, { authenticated: boolean; channels: Map<string, Set<string>> }>();
+
+  const productId = (symbol: string): number => venue.getInstrument(symbol)?.productId || 0;
+
+  const symbolFor = (value: string): string | undefined => {
+    const instrument = venue.getInstruments().find(candidate => candidate.symbol === value || String(candidate.productId) === value);
+    return instrument?.symbol;
+  };
+
+  const fail = (res: express.Response, status: number, code: string, message?: string, context?: unknown) => {
+    res.status(status).json({ success: false, error: { code, message, context } });
+  };
+
+  const formatOrder = (order: MockOrder) => ({
+    id: order.id,
+    client_order_id: order.clientOrderId || null,
+    product_id: productId(order.symbol),
+    product_symbol: order.symbol,
+    side: order.side,
+    order_type: order.type === 'market' ? 'market_order' : 'limit_order',
+    time_in_force: order.timeInForce.toLowerCase(),
+    size: order.quantity,
+    unfilled_size: order.quantity - order.filledQuantity,
+    limit_price: order.price ? String(order.price) : null,
+    average_fill_price: order.filledQuantity > 0 ? String(order.averagePrice) : null,
+    state: ORDER_STATE[order.status],
+    paid_commission: String(order.fees),
+    reduce_only: order.reduceOnly,
+    created_at: new Date(order.createdAt).toISOString(),
+    updated_at: new Date(order.updatedAt).toISOString(),
+  });
+
+  const formatTicker = (symbol: string) => {
+    const ticker = venue.getTicker(symbol)!;
+    return {
+      symbol,
+      product_id: productId(symbol),
+      close: ticker.price,
+      open: ticker.open,
+      mark_price: String(ticker.price),
+      change_24h: percentChange(ticker.price, ticker.open).toFixed(4),
+      volume: ticker.volume,
+      timestamp: micros(venue.now()),
+    };
+  };
+
+  // signature_data is method + timestamp + path with query string + body
+  const signed: express.RequestHandler = (req, res, next) => {
+    if (req.get('api-key') !== credentials.apiKey) {
+      fail(res, 401, 'invalid_api_key');
+      return;
+    }
+
+    const timestamp = req.get('timestamp') || '';
+    const signatureData = req.method + timestamp + req.originalUrl + rawBody(req);
+    if (!signaturesMatch(hmac(credentials.apiSecret, signatureData, 'hex'), req.get('signature'))) {
+      fail(res, 401, 'Signature Mismatch', undefined, { signature_data: signatureData });
+      return;
+    }
+
+    if (!isWithinWindow(parseInt(timestamp) * 1000, venue.now(), REQUEST_WINDOW_MS)) {
+      fail(res, 401, 'expired_signature', undefined, { request_time: parseInt(timestamp), server_time: Math.floor(venue.now() / 1000) });
+      return;
+    }
+
+    next();
+  };
+
+  const cancel = (res: express.Response, id: number) => {
+    const order = venue.cancelOrder(id);
+    if (!order) {
+      fail(res, 400, 'open_order_not_found');
+      return;
+    }
+    res.json({ success: true, result: formatOrder(order) });
+  };
+
+  router.get('/v2/products', (req, res) => {
+    res.json({
+      success: true,
+      result: venue.getInstruments().map(instrument => ({
+        id: instrument.productId,
+        symbol: instrument.symbol,
+        contract_type: 'perpetual_futures',
+        state: 'live',
+        contract_value: String(instrument.contractValue),
+        tick_size: String(instrument.tickSize),
+        underlying_asset: { symbol: instrument.baseAsset },
+        quoting_asset: { symbol: instrument.quoteAsset },
+        settling_asset: { symbol: instrument.settleAsset },
+      })),
+    });
+  });
+
+  router.get('/v2/tickers/:symbol', (req, res) => {
+    if (!venue.getTicker(req.params.symbol)) {
+      fail(res, 404, 'not_found', `No ticker for ${req.params.symbol}`);
+      return;
+    }
+    res.json({ success: true, result: formatTicker(req.params.symbol) });
+  });
+
+  router.get('/v2/profile', signed, (req, res) => {
+    res.json({ success: true, result: { id: 1, email: 'mock@example.com', is_sub_account: false } });
+  });
+
+  router.get('/v2/wallet/balances', signed, (req, res) => {
+    res.json({
+      success: true,
+      result: venue.getBalances().map(balance => ({
+        asset_symbol: balance.asset,
+        balance: String(balance.balance),
+        wallet_balance: String(balance.balance),
+        available_balance: String(balance.available),
+        order_margin: String(balance.balance - balance.available),
+      })),
+    });
+  });
+
+  router.get('/v2/positions', signed, (req, res) => {
+    const leverage = venue.scenario.execution.leverage;
+    res.json({
+      success: true,
+      result: venue.getPositions().map(position => ({
+        product_id: productId(position.symbol),
+        product_symbol: position.symbol,
+        size: position.size,
+        entry_price: String(position.entryPrice),
+        mark_price: String(position.markPrice),
+        unrealized_pnl: String(position.unrealizedPnl),
+        unrealized_pnl_percent: String(position.notional > 0 ? (position.unrealizedPnl / (position.notional / leverage)) * 100 : 0),
+      })),
+    });
+  });
+
+  router.post('/v2/orders', signed, (req, res) => {
+    const body = req.body || {};
+    const instrument = venue.getInstruments().find(candidate => candidate.productId === Number(body.product_id));
+    const timeInForce = String(body.time_in_force || 'gtc').toUpperCase() as MockOrder['timeInForce'];
+
+    try {
+      const order = venue.placeOrder({
+        symbol: instrument?.symbol || String(body.product_symbol || body.product_id),
+        side: body.side,
+        type: String(body.order_type).startsWith('market') ? 'market' : 'limit',
+        quantity: parseFloat(body.size),
+        price: body.limit_price ? parseFloat(body.limit_price) : undefined,
+        timeInForce,
+        reduceOnly: body.reduce_only === true || body.reduce_only === 'true',
+        clientOrderId: body.client_order_id,
+      });
+      res.json({ success: true, result: formatOrder(order) });
+    } catch (error) {
+      if (error instanceof MockRejection) {
+        fail(res, 400, REJECTIONS[error.reason], error.message);
+        return;
+      }
+      throw error;
+    }
+  });
+
+  router.get('/v2/orders', signed, (req, res) => {
+    res.json({ success: true, result: venue.getOpenOrders().map(formatOrder) });
+  });
+
+  router.get('/v2/orders/:id', signed, (req, res) => {
+    const order = venue.getOrder(parseInt(req.params.id));
+    if (!order) {
+      fail(res, 404, 'not_found');
+      return;
+    }
+    res.json({ success: true, result: formatOrder(order) });
+  });
+
+  router.delete('/v2/orders', signed, (req, res) => cancel(res, parseInt(req.body?.id)));
+  router.delete('/v2/orders/:id', signed, (req, res) => cancel(res, parseInt(req.params.id)));
+
+  const push = (channel: string, symbol: string, payload: Record<string, unknown>) => {
+    sockets.forEach((state, ws) => {
+      const symbols = state.channels.get(channel);
+      if (symbols && (symbols.has('all') || symbols.has(symbol))) {
+        sendJson(ws, { type: channel, ...payload });
+      }
+    });
+  };
+
+  venue.on('order', (order: MockOrder) => {
+    const formatted = formatOrder(order);
+    push('orders', order.symbol, {
+      ...formatted,
+      action: order.status === 'new' ? 'create' : 'update',
+      symbol: order.symbol,
+      size: String(formatted.size),
+      unfilled_size: String(formatted.unfilled_size),
+      created_at: micros(order.createdAt),
+      updated_at: micros(order.updatedAt),
+    });
+  });
+
+  venue.on('fill', (fill: MockFill, order: MockOrder) => push('user_trades', fill.symbol, {
+    symbol: fill.symbol,
+    product_id: productId(fill.symbol),
+    fill_id: String(fill.id),
+    order_id: String(fill.orderId),
+    client_order_id: order.clientOrderId || null,
+    side: fill.side,
+    size: fill.quantity,
+    price: String(fill.price),
+    commission: String(fill.fee),
+    role: fill.isMaker ? 'maker' : 'taker',
+    created_at: micros(fill.timestamp),
+  }));
+
+  venue.on('ticker', (symbol: string) => {
+    push('ticker', symbol, formatTicker(symbol));
+    push('v2/ticker', symbol, formatTicker(symbol));
+  });
+
+  const handleSocket = (ws: WebSocket) => {
+    const state = { authenticated: false, channels: new Map<string, Set<string>>() };
+    sockets.set(ws, state);
+
+    ws.on('close', () => sockets.delete(ws));
+    ws.on('message', (data) => {
+      const message = parseMessage(data);
+
+      if (message?.type === 'ping') {
+        sendJson(ws, { type: 'pong' });
+        return;
+      }
+
+      if (message?.type === 'auth') {
+        const { signature, timestamp } = message.payload || {};
+        const expected = hmac(credentials.apiSecret, `GET${timestamp}/live`, 'hex');
+        state.authenticated = message.payload?.['api-key'] === credentials.apiKey
+          && signaturesMatch(expected, signature)
+          && isWithinWindow(parseInt(timestamp) * 1000, venue.now(), REQUEST_WINDOW_MS);
+
+        sendJson(ws, state.authenticated
+          ? { type: 'success', message: 'Authenticated' }
+          : { type: 'error', message: 'Invalid api key or signature' });
+        return;
+      }
+
+      if (message?.type === 'subscribe' || message?.type === 'unsubscribe') {
+        for (const channel of message.payload?.channels || []) {
+          if ((channel.name === 'orders' || channel.name === 'user_trades') && !state.authenticated) {
+            sendJson(ws, { type: 'error', message: `Channel ${channel.name} requires authentication` });
+            continue;
+          }
+
+          const symbols = state.channels.get(channel.name) || new Set<string>();
+          for (const value of channel.symbols || []) {
+            const symbol = value === 'all' ? 'all' : symbolFor(String(value));
+            if (!symbol) {
+              continue;
+            }
+            if (message.type === 'subscribe') {
+              symbols.add(symbol);
+            } else {
+              symbols.delete(symbol);
+            }
+          }
+          state.channels.set(channel.name, symbols);
+        }
+
+        sendJson(ws, {
+          type: 'subscriptions',
+          channels: Array.from(state.channels.entries()).map(([name, symbols]) => ({ name, symbols: Array.from(symbols) })),
+        });
+      }
+    });
+  };
+
+  return {
+    router,
+    ownsSocket: (path) => path === '/delta',
+    handleSocket,
+  };
+};
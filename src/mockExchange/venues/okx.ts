@@ -0,0 +1,324 @@
+import express from 'express';
+import WebSocket from 'ws';
+import { VenueHandler, parseMessage, sendJson } from '../handler';
+import { hmac, isWithinWindow, rawBody, signaturesMatch } from '../signing';
+import { MockFill, MockOrder, MockRejection, MockVenue } from '../venue';
+
+const ORDER_STATE: Record<MockOrder['status'], string> = {
+  new: 'live',
+  partially_filled: 'partially_filled',
+  filled: 'filled',
+  cancelled: 'canceled',
+  expired: 'canceled',
+};
+
+const REJECTIONS: Record<MockRejection['reason'], string> = {
+  unknown_symbol: '51001',
+  invalid_quantity: '51121',
+  invalid_price: '51006',
+  insufficient_margin: '51008',
+  reduce_only: '51169',
+  duplicate_client_order_id: '51016',
+};
+
+// OKX accepts request timestamps up to 30 seconds old
+const REQUEST_WINDOW_MS = 30000;
+
+export const createOkxHandler = (venue: MockVenue): VenueHandler => {
+  const { credentials } = venue.scenario;
+  const router = express.Router();
+  const publicSockets = new Map<WebSocket, Set<string>>();
+  const privateSockets = new Set<WebSocket>();
+
+  const reply = (res: express.Response, data: unknown[], code: string = '0', msg: string = '') => {
+    res.json({ code, msg, data });
+  };
+
+  const orderType = (order: MockOrder): string => {
+    if (order.type === 'market') {
+      return 'market';
+    }
+    return order.timeInForce === 'IOC' ? 'ioc' : order.timeInForce === 'FOK' ? 'fok' : 'limit';
+  };
+
+  const formatOrder = (order: MockOrder) => ({
+    instType: 'SWAP',
+    instId: order.symbol,
+    ordId: String(order.id),
+    clOrdId: order.clientOrderId || '',
+    side: order.side,
+    posSide: 'net',
+    tdMode: 'cross',
+    ordType: orderType(order),
+    px: order.price ? String(order.price) : '',
+    sz: String(order.quantity),
+    accFillSz: String(order.filledQuantity),
+    avgPx: order.filledQuantity > 0 ? String(order.averagePrice) : '',
+    state: ORDER_STATE[order.status],
+    // Charged fees are reported as negative amounts
+    fee: String(-order.fees),
+    feeCcy: venue.getInstrument(order.symbol)?.settleAsset || '',
+    reduceOnly: String(order.reduceOnly),
+    cTime: String(order.createdAt),
+    uTime: String(order.updatedAt),
+  });
+
+  const formatTicker = (symbol: string) => {
+    const ticker = venue.getTicker(symbol)!;
+    return {
+      instType: 'SWAP',
+      instId: symbol,
+      last: String(ticker.price),
+      open24h: String(ticker.open),
+      sodUtc8: String(ticker.open),
+      vol24h: String(ticker.volume),
+      ts: String(venue.now()),
+    };
+  };
+
+  // The prehash string is timestamp + method + request path with query + body
+  const signed: express.RequestHandler = (req, res, next) => {
+    if (req.get('OK-ACCESS-KEY') !== credentials.apiKey) {
+      res.status(401).json({ code: '50111', msg: 'Invalid OK-ACCESS-KEY', data: [] });
+      return;
+    }
+
+    if (req.get('OK-ACCESS-PASSPHRASE') !== (credentials.passphrase || '')) {
+      res.status(401).json({ code: '50105', msg: 'Invalid OK-ACCESS-PASSPHRASE', data: [] });
+      return;
+    }
+
+    const timestamp = req.get('OK-ACCESS-TIMESTAMP') || '';
+    const expected = hmac(credentials.apiSecret, timestamp + req.method + req.originalUrl + rawBody(req), 'base64');
+    if (!signaturesMatch(expected, req.get('OK-ACCESS-SIGN'))) {
+      res.status(401).json({ code: '50113', msg: 'Invalid Sign', data: [] });
+      return;
+    }
+
+    if (!isWithinWindow(new Date(timestamp).getTime(), venue.now(), REQUEST_WINDOW_MS)) {
+      res.status(401).json({ code: '50102', msg: 'Timestamp request expired', data: [] });
+      return;
+    }
+
+    next();
+  };
+
+  const findOrder = (source: Record<string, any>): MockOrder | undefined => {
+    const order = source.ordId ? venue.getOrder(parseInt(source.ordId)) : source.clOrdId ? venue.findOrderByClientId(source.clOrdId) : undefined;
+    return order && order.symbol === source.instId ? order : undefined;
+  };
+
+  router.get('/api/v5/public/time', (req, res) => {
+    reply(res, [{ ts: String(venue.now()) }]);
+  });
+
+  router.get('/api/v5/public/instruments', (req, res) => {
+    reply(res, venue.getInstruments().map(instrument => ({
+      instType: 'SWAP',
+      instId: instrument.symbol,
+      uly: `${instrument.baseAsset}-${instrument.quoteAsset}`,
+      instFamily: `${instrument.baseAsset}-${instrument.quoteAsset}`,
+      settleCcy: instrument.settleAsset,
+      ctVal: String(instrument.contractValue),
+      ctValCcy: instrument.baseAsset,
+      ctType: 'linear',
+      tickSz: String(instrument.tickSize),
+      lotSz: String(instrument.lotSize),
+      minSz: String(instrument.minQuantity),
+      state: 'live',
+    })));
+  });
+
+  router.get('/api/v5/market/ticker', (req, res) => {
+    const instId = req.query.instId as string;
+    if (!venue.getTicker(instId)) {
+      reply(res, [], '51001', "Instrument ID doesn't exist.");
+      return;
+    }
+    reply(res, [formatTicker(instId)]);
+  });
+
+  router.get('/api/v5/account/config', signed, (req, res) => {
+    reply(res, [{ uid: 'mock', mainUid: 'mock', acctLv: '2', posMode: 'net_mode', autoLoan: false }]);
+  });
+
+  router.get('/api/v5/account/balance', signed, (req, res) => {
+    const balances = venue.getBalances();
+    reply(res, [{
+      totalEq: String(balances.reduce((sum, balance) => sum + balance.balance, 0)),
+      uTime: String(venue.now()),
+      details: balances.map(balance => ({
+        ccy: balance.asset,
+        eq: String(balance.balance),
+        cashBal: String(balance.balance),
+        bal: String(balance.balance),
+        availBal: String(balance.available),
+        frozenBal: String(balance.balance - balance.available),
+      })),
+    }]);
+  });
+
+  router.get('/api/v5/account/positions', signed, (req, res) => {
+    const leverage = venue.scenario.execution.leverage;
+    reply(res, venue.getPositions()
+      .filter(position => !req.query.instId || position.symbol === req.query.instId)
+      .map(position => ({
+        instType: 'SWAP',
+        instId: position.symbol,
+        posSide: 'net',
+        pos: String(position.size),
+        avgPx: String(position.entryPrice),
+        markPx: String(position.markPrice),
+        upl: String(position.unrealizedPnl),
+        uplRatio: String(position.notional > 0 ? position.unrealizedPnl / (position.notional / leverage) : 0),
+        lever: String(leverage),
+        notionalUsd: String(position.notional),
+        uTime: String(venue.now()),
+      })));
+  });
+
+  router.post('/api/v5/trade/order', signed, (req, res) => {
+    const { instId, side, ordType, sz, px, reduceOnly, clOrdId } = req.body || {};
+    try {
+      const order = venue.placeOrder({
+        symbol: instId,
+        side,
+        type: ordType === 'market' ? 'market' : 'limit',
+        quantity: parseFloat(sz),
+        price: px ? parseFloat(px) : undefined,
+        timeInForce: ordType === 'ioc' ? 'IOC' : ordType === 'fok' ? 'FOK' : 'GTC',
+        reduceOnly: reduceOnly === true || reduceOnly === 'true',
+        clientOrderId: clOrdId,
+      });
+      reply(res, [{ ordId: String(order.id), clOrdId: order.clientOrderId || '', tag: '', sCode: '0', sMsg: 'Order placed' }]);
+    } catch (error) {
+      if (error instanceof MockRejection) {
+        reply(res, [{ ordId: '', clOrdId: clOrdId || '', tag: '', sCode: REJECTIONS[error.reason], sMsg: error.message }], '1', 'Operation failed.');
+        return;
+      }
+      throw error;
+    }
+  });
+
+  router.post('/api/v5/trade/cancel-order', signed, (req, res) => {
+    const order = findOrder(req.body || {});
+    if (!order || !venue.cancelOrder(order.id)) {
+      reply(res, [{ ordId: req.body?.ordId || '', clOrdId: req.body?.clOrdId || '', sCode: '51400', sMsg: 'Order cancellation failed as the order has been filled, canceled or does not exist' }], '1', 'Operation failed.');
+      return;
+    }
+    reply(res, [{ ordId: String(order.id), clOrdId: order.clientOrderId || '', sCode: '0', sMsg: '' }]);
+  });
+
+  router.get('/api/v5/trade/order', signed, (req, res) => {
+    const order = findOrder(req.query as Record<string, any>);
+    if (!order) {
+      reply(res, [], '51603', 'Order does not exist');
+      return;
+    }
+    reply(res, [formatOrder(order)]);
+  });
+
+  router.get('/api/v5/trade/orders-pending', signed, (req, res) => {
+    reply(res, venue.getOpenOrders(req.query.instId as string | undefined).map(formatOrder));
+  });
+
+  const push = (order: MockOrder, fill?: MockFill) => {
+    const data = {
+      ...formatOrder(order),
+      tradeId: fill ? String(fill.id) : '',
+      fillSz: String(fill?.quantity || 0),
+      fillPx: fill ? String(fill.price) : '',
+      fillFee: String(-(fill?.fee || 0)),
+      fillFeeCcy: fill?.feeAsset || '',
+      fillTime: fill ? String(fill.timestamp) : '',
+      execType: fill ? (fill.isMaker ? 'M' : 'T') : '',
+    };
+    privateSockets.forEach(ws => sendJson(ws, { arg: { channel: 'orders', instType: 'ANY', uid: 'mock' }, data: [data] }));
+  };
+
+  // Each fill is pushed with the order's cumulative state; placement and cancellation get their own push
+  venue.on('order', (order: MockOrder) => {
+    if (order.status === 'new' || order.status === 'cancelled' || order.status === 'expired') {
+      push(order);
+    }
+  });
+
+  venue.on('fill', (fill: MockFill, order: MockOrder) => push(order, fill));
+
+  venue.on('ticker', (symbol: string) => {
+    publicSockets.forEach((instIds, ws) => {
+      if (instIds.has(symbol)) {
+        sendJson(ws, { arg: { channel: 'tickers', instId: symbol }, data: [formatTicker(symbol)] });
+      }
+    });
+  });
+
+  const handlePrivate = (ws: WebSocket) => {
+    let loggedIn = false;
+
+    ws.on('close', () => privateSockets.delete(ws));
+    ws.on('message', (data) => {
+      const message = parseMessage(data);
+
+      if (message === 'ping') {
+        ws.send('pong');
+        return;
+      }
+
+      if (message?.op === 'login') {
+        const { apiKey, passphrase, timestamp, sign } = message.args?.[0] || {};
+        const expected = hmac(credentials.apiSecret, `${timestamp}GET/users/self/verify`, 'base64');
+        loggedIn = apiKey === credentials.apiKey
+          && passphrase === (credentials.passphrase || '')
+          && signaturesMatch(expected, sign)
+          && isWithinWindow(parseFloat(timestamp) * 1000, venue.now(), REQUEST_WINDOW_MS);
+
+        sendJson(ws, loggedIn
+          ? { event: 'login', code: '0', msg: '', connId: 'mock' }
+          : { event: 'error', code: '60009', msg: 'Login failed.', connId: 'mock' });
+        return;
+      }
+
+      if (message?.op === 'subscribe') {
+        if (!loggedIn) {
+          sendJson(ws, { event: 'error', code: '60011', msg: 'Please log in', connId: 'mock' });
+          return;
+        }
+        privateSockets.add(ws);
+        (message.args || []).forEach((arg: unknown) => sendJson(ws, { event: 'subscribe', arg, connId: 'mock' }));
+      }
+    });
+  };
+
+  const handlePublic = (ws: WebSocket) => {
+    const instIds = new Set<string>();
+    publicSockets.set(ws, instIds);
+
+    ws.on('close', () => publicSockets.delete(ws));
+    ws.on('message', (data) => {
+      const message = parseMessage(data);
+
+      if (message === 'ping') {
+        ws.send('pong');
+        return;
+      }
+
+      if (message?.op === 'subscribe' || message?.op === 'unsubscribe') {
+        (message.args || []).forEach((arg: { channel: string; instId: string }) => {
+          if (arg.channel === 'tickers' && message.op === 'subscribe') {
+            instIds.add(arg.instId);
+          } else if (arg.channel === 'tickers') {
+            instIds.delete(arg.instId);
+          }
+          sendJson(ws, { event: message.op, arg, connId: 'mock' });
+        });
+      }
+    });
+  };
+
+  return {
+    router,
+    ownsSocket: (path) => path === '/okx/ws/v5/public' || path === '/okx/ws/v5/private',
+    handleSocket: (ws, path) => (path === '/okx/ws/v5/private' ? handlePrivate(ws) : handlePublic(ws)),
+  };
+};
@@ -8,6 +8,9 @@ import { AppError, ValidationError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { BrokerFactory, SupportedBroker } from '../services/brokerIntegrations/brokerFactory';
 import { encryptApiKey, decryptApiKey, ENCRYPTION_KEY } from '../utils/encryption';
+import { copyEngine } from '../services/copyEngine/copyEngine';
+import { positionPoller, syncPositionRecords } from '../services/copyEngine/positionPoller';
+import { runKillSwitch } from '../services/killSwitch';
 
 const router = express.Router();
 console.log(ENCRYPTION_KEY);
@@ -18,6 +21,7 @@ router.get('/', authenticate, asyncHandler(async (req: AuthenticatedRequest, res
     select: {
       id: true,
       broker: true,
+      environment: true,
       accountType: true,
       name: true,
       isActive: true,
@@ -38,11 +42,18 @@ router.get('/', authenticate, asyncHandler(async (req: AuthenticatedRequest, res
 // Add new broker account
 router.post('/', authenticate, [
   body('name').trim().isLength({ min: 3, max: 100 }),
-  body('broker').isIn(['DELTA', 'BINANCE', 'BYBIT', 'OKX']),
+  body('broker').isIn(BrokerFactory.getSupportedBrokers()),
   body('accountType').isIn(['MASTER', 'FOLLOWER']),
-  body('apiKey').isLength({ min: 10 }),
-  body('apiSecret').isLength({ min: 10 }),
+  // Paper accounts have no exchange credentials
+  body('apiKey').if(body('broker').not().equals('PAPER')).isLength({ min: 10 }),
+  body('apiSecret').if(body('broker').not().equals('PAPER')).isLength({ min: 10 }),
   body('passphrase').optional().isLength({ min: 1 }),
+  body('environment').optional().isIn(['LIVE', 'TESTNET']),
+  body('paperBalance').optional().isFloat({ gt: 0 }),
+  body('takerFee').optional().isFloat({ min: 0, max: 5 }),
+  body('makerFee').optional().isFloat({ min: 0, max: 5 }),
+  body('slippage').optional().isFloat({ min: 0, max: 10 }),
+  body('leverage').optional().isFloat({ min: 1, max: 125 }),
 ], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -50,6 +61,7 @@ router.post('/', authenticate, [
   }
 
   const { name, broker, accountType, apiKey, apiSecret, passphrase } = req.body;
+  const environment = req.body.environment || 'LIVE';
 
   // Check if account with same name already exists
   const existingAccount = await prisma.brokerAccount.findFirst({
@@ -63,12 +75,65 @@ router.post('/', authenticate, [
     throw new AppError('Account with this name already exists', 409);
   }
 
+  if (broker === 'PAPER') {
+    if (environment !== 'LIVE') {
+      throw new ValidationError('Validation failed', [{ field: 'environment', message: 'Paper accounts are already simulated' }]);
+    }
+
+    const startingBalance = req.body.paperBalance !== undefined ? parseFloat(req.body.paperBalance) : 10000;
+
+    const account = await prisma.brokerAccount.create({
+      data: {
+        userId: req.user!.id,
+        broker: 'PAPER',
+        accountType: accountType as any,
+        name,
+        apiKey: encryptApiKey('paper'),
+        apiSecret: encryptApiKey('paper'),
+        isActive: true,
+        balance: startingBalance,
+        pnl: 0,
+        paperAccount: {
+          create: {
+            balance: startingBalance,
+            initialBalance: startingBalance,
+            takerFee: req.body.takerFee,
+            makerFee: req.body.makerFee,
+            slippage: req.body.slippage,
+            leverage: req.body.leverage,
+          },
+        },
+      },
+      select: {
+        id: true,
+        broker: true,
+        environment: true,
+        accountType: true,
+        name: true,
+        isActive: true,
+        balance: true,
+        pnl: true,
+        lastSync: true,
+        createdAt: true,
+      },
+    });
+
+    logger.info(`Paper account created: ${name} with ${startingBalance} for user ${req.user!.email}`);
+
+    res.status(201).json({
+      success: true,
+      data: { account },
+    });
+    return;
+  }
+
   // Validate broker credentials
   try {
     const brokerInstance = BrokerFactory.createBroker(broker as SupportedBroker, {
       apiKey,
       apiSecret,
       passphrase,
+      sandbox: environment === 'TESTNET',
     });
 
     const isValid = await brokerInstance.validateCredentials();
@@ -93,6 +158,7 @@ router.post('/', authenticate, [
         name,
         apiKey: encryptedApiKey,
         apiSecret: encryptedApiSecret,
+        environment,
         isActive: true,
         balance: totalBalance,
         pnl: 0,
@@ -100,6 +166,7 @@ router.post('/', authenticate, [
       select: {
         id: true,
         broker: true,
+        environment: true,
         accountType: true,
         name: true,
         isActive: true,
@@ -174,6 +241,7 @@ router.put('/:id', authenticate, [
     select: {
       id: true,
       broker: true,
+      environment: true,
       accountType: true,
       name: true,
       isActive: true,
@@ -223,11 +291,23 @@ router.delete('/:id', authenticate, asyncHandler(async (req: AuthenticatedReques
     throw new AppError('Cannot delete account with active subscriptions', 400);
   }
 
-  // Delete account
-  await prisma.brokerAccount.delete({
-    where: { id },
+  // Masters this account follows lose a follower when its subscriptions cascade away
+  const followedMasters = await prisma.subscription.findMany({
+    where: { followerAccountId: id },
+    select: { masterAccountId: true },
   });
 
+  // Delete account
+  await prisma.$transaction([
+    prisma.brokerAccount.delete({
+      where: { id },
+    }),
+    ...followedMasters.map(({ masterAccountId }) => prisma.brokerAccount.update({
+      where: { id: masterAccountId },
+      data: { followers: { decrement: 1 } },
+    })),
+  ]);
+
   // Disconnect broker instance if exists
   const instanceId = `${account.broker}_${account.id}`;
   await BrokerFactory.disconnectBroker(instanceId);
@@ -265,6 +345,8 @@ router.post('/:id/validate', authenticate, asyncHandler(async (req: Authenticate
     const brokerInstance = BrokerFactory.createBroker(account.broker as SupportedBroker, {
       apiKey,
       apiSecret,
+      passphrase: account.passphrase ? decryptApiKey(account.passphrase) : undefined,
+      sandbox: account.environment === 'TESTNET',
     });
 
     const isValid = await brokerInstance.validateCredentials();
@@ -314,15 +396,8 @@ router.post('/:id/sync', authenticate, asyncHandler(async (req: AuthenticatedReq
   }
 
   try {
-    // Decrypt credentials
-    const apiKey = decryptApiKey(account.apiKey);
-    const apiSecret = decryptApiKey(account.apiSecret);
-
     // Create broker instance
-    const brokerInstance = BrokerFactory.createBroker(account.broker as SupportedBroker, {
-      apiKey,
-      apiSecret,
-    });
+    const brokerInstance = BrokerFactory.createAccountBroker(account);
 
     // Get current balance
     const balances = await brokerInstance.getAccountBalance();
@@ -332,6 +407,13 @@ router.post('/:id/sync', authenticate, asyncHandler(async (req: AuthenticatedReq
     const positions = await brokerInstance.getPositions();
     const totalPnL = positions.reduce((sum, pos) => sum + pos.pnl, 0);
 
+    // Watched masters go through the poller so changes found here are still copied
+    if (copyEngine.isWatching(account.id)) {
+      await positionPoller.syncAccount(account.id, true);
+    } else {
+      await syncPositionRecords(account.id, positions);
+    }
+
     // Update account
     const updatedAccount = await prisma.brokerAccount.update({
       where: { id },
@@ -343,6 +425,7 @@ router.post('/:id/sync', authenticate, asyncHandler(async (req: AuthenticatedReq
       select: {
         id: true,
         broker: true,
+        environment: true,
         accountType: true,
         name: true,
         isActive: true,
@@ -365,6 +448,42 @@ router.post('/:id/sync', authenticate, asyncHandler(async (req: AuthenticatedReq
   }
 }));
 
+// Emergency stop for one account: halt its copying and flatten it
+router.post('/:id/kill-switch', authenticate, [
+  body('reason').optional().trim().isLength({ min: 1, max: 500 }),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const { id } = req.params;
+
+  // Check if account exists and belongs to user
+  const account = await prisma.brokerAccount.findFirst({
+    where: {
+      id,
+      userId: req.user!.id,
+    },
+  });
+
+  if (!account) {
+    throw new AppError('Account not found', 404);
+  }
+
+  const report = await runKillSwitch(req.user!.id, {
+    accountId: account.id,
+    reason: req.body.reason,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  res.json({
+    success: true,
+    data: { report },
+  });
+}));
+
 // Get supported brokers
 router.get('/brokers', asyncHandler(async (req: express.Request, res: express.Response) => {
   const brokers = BrokerFactory.getSupportedBrokers().map(broker => ({
@@ -0,0 +1,52 @@
+import express from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { authenticate, AuthenticatedRequest, requireAdmin } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { followerOrderQueue } from '../services/copyEngine/orderQueue';
+
+const router = express.Router();
+
+// Follower order jobs that exhausted their retries, newest first
+router.get('/copy-queue/dead-letters', authenticate, requireAdmin, [
+  query('limit').optional().isInt({ min: 1, max: 1000 }),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const [deadLetters, stats] = await Promise.all([
+    followerOrderQueue.getDeadLetters(parseInt((req.query.limit as string) || '50')),
+    followerOrderQueue.getStats(),
+  ]);
+
+  res.json({
+    success: true,
+    data: { deadLetters, total: stats.deadLetters },
+  });
+}));
+
+// Put a dead-lettered job back on the queue; legs it already placed are not repeated
+router.post('/copy-queue/dead-letters/:jobId/retry', authenticate, requireAdmin, [
+  param('jobId').isUUID(),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  if (!(await followerOrderQueue.retryDeadLetter(req.params.jobId))) {
+    throw new NotFoundError('Dead letter not found');
+  }
+
+  logger.info(`Dead-lettered follower order job ${req.params.jobId} requeued by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Job requeued',
+  });
+}));
+
+export default router;
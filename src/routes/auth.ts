@@ -9,6 +9,7 @@ import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { generateTokens, hashPassword } from '../utils/auth';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { isValidTimezone } from '../services/copyEngine/schedule';
 
 const router = express.Router();
 
@@ -215,6 +216,7 @@ router.get('/profile', asyncHandler(async (req: AuthenticatedRequest, res: expre
       lastName: true,
       kycStatus: true,
       twoFaEnabled: true,
+      timezone: true,
       createdAt: true,
       lastLogin: true,
     },
@@ -237,11 +239,17 @@ router.put('/profile', asyncHandler(async (req: AuthenticatedRequest, res: expre
     throw new AppError('Validation failed', 400);
   }
 
-  const { firstName, lastName, email } = req.body;
+  const { firstName, lastName, email, timezone } = req.body;
   const updateData: any = {};
 
   if (firstName) updateData.firstName = firstName;
   if (lastName) updateData.lastName = lastName;
+  if (timezone) {
+    if (!isValidTimezone(timezone)) {
+      throw new AppError('Invalid timezone', 400);
+    }
+    updateData.timezone = timezone;
+  }
   if (email) {
     // Check if email is already taken
     const existingUser = await prisma.user.findFirst({
@@ -270,6 +278,7 @@ router.put('/profile', asyncHandler(async (req: AuthenticatedRequest, res: expre
       kycStatus: true,
       twoFaEnabled: true,
       emailVerified: true,
+      timezone: true,
     },
   });
 
@@ -3,6 +3,8 @@ import { asyncHandler } from '../middleware/errorHandler';
 import { checkDatabaseHealth } from '../config/database';
 import { checkRedisHealth } from '../config/redis';
 import { logger } from '../utils/logger';
+import { followerOrderQueue } from '../services/copyEngine/orderQueue';
+import { getBrokerClockSkew, getBrokerStreamStatus } from '../services/healthMonitor';
 
 const router = express.Router();
 
@@ -55,6 +57,9 @@ router.get('/detailed', asyncHandler(async (req: express.Request, res: express.R
       status: await checkRedisHealth(),
       responseTime: await measureRedisResponseTime(),
     },
+    copyQueue: await getCopyQueueStats(),
+    brokerStreams: getBrokerStreamStatus(),
+    brokerClocks: getBrokerClockSkew(),
     memory: getDetailedMemoryUsage(),
     disk: getDiskUsage(),
     cpu: getCpuUsage(),
@@ -172,6 +177,14 @@ async function measureDatabaseResponseTime(): Promise<number> {
   }
 }
 
+async function getCopyQueueStats() {
+  try {
+    return await followerOrderQueue.getStats();
+  } catch (error) {
+    return null;
+  }
+}
+
 async function measureRedisResponseTime(): Promise<number> {
   const start = Date.now();
   try {
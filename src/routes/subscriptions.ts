@@ -0,0 +1,409 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../config/database';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError, ConflictError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { copyEngine } from '../services/copyEngine/copyEngine';
+import { validateSchedule } from '../services/copyEngine/schedule';
+import { SIZING_MODES, toSizingConfig, validateSizingConfig } from '../services/copyEngine/sizing';
+import { driftReconciler } from '../services/copyEngine/reconciler';
+import { pauseSubscription, resumeSubscription } from '../services/copyEngine/subscriptionState';
+import { normalizeSymbolList } from '../services/copyEngine/symbolFilter';
+
+const router = express.Router();
+
+const subscriptionInclude = {
+  masterAccount: {
+    select: { id: true, name: true, broker: true, accountType: true },
+  },
+  followerAccount: {
+    select: { id: true, name: true, broker: true, accountType: true },
+  },
+};
+
+const settingsValidation = [
+  body('multiplier').optional().isFloat({ gt: 0 }),
+  body('sizingMode').optional().isIn(SIZING_MODES),
+  body('fixedNotional').optional({ nullable: true }).isFloat({ gt: 0 }),
+  body('fixedQuantity').optional({ nullable: true }).isFloat({ gt: 0 }),
+  body('riskPercent').optional({ nullable: true }).isFloat({ gt: 0, max: 100 }),
+  body('stopLossPercent').optional({ nullable: true }).isFloat({ gt: 0, max: 100 }),
+  body('maxPositionSize').optional().isFloat({ min: 0 }),
+  body('dailyLossLimit').optional().isFloat({ min: 0 }),
+  body('maxSlippage').optional({ nullable: true }).isFloat({ gt: 0, max: 100 }),
+  body('slippageAction').optional().isIn(['SKIP', 'LIMIT_IOC']),
+  body('tradingSchedule').optional({ nullable: true }).isArray(),
+  body('allowedSymbols').optional().isArray({ max: 200 }),
+  body('allowedSymbols.*').isString().trim().isLength({ min: 1, max: 50 }),
+  body('blockedSymbols').optional().isArray({ max: 200 }),
+  body('blockedSymbols.*').isString().trim().isLength({ min: 1, max: 50 }),
+  body('autoRebalance').optional().isBoolean(),
+  body('rebalanceThreshold').optional().isFloat({ gt: 0, max: 100 }),
+];
+
+const SETTINGS_FIELDS = [
+  'multiplier',
+  'sizingMode',
+  'fixedNotional',
+  'fixedQuantity',
+  'riskPercent',
+  'stopLossPercent',
+  'maxPositionSize',
+  'dailyLossLimit',
+  'maxSlippage',
+  'slippageAction',
+  'tradingSchedule',
+  'allowedSymbols',
+  'blockedSymbols',
+  'autoRebalance',
+  'rebalanceThreshold',
+];
+
+const pickSettings = (input: any): Record<string, any> => {
+  const settings = SETTINGS_FIELDS.reduce((picked, field) => {
+    if (input[field] !== undefined) {
+      picked[field] = input[field];
+    }
+    return picked;
+  }, {} as Record<string, any>);
+
+  // An empty or null schedule clears it, meaning copy around the clock
+  if (settings.tradingSchedule !== undefined) {
+    settings.tradingSchedule = settings.tradingSchedule && settings.tradingSchedule.length > 0
+      ? validateSchedule(settings.tradingSchedule)
+      : Prisma.DbNull;
+  }
+
+  ['allowedSymbols', 'blockedSymbols'].forEach(field => {
+    if (settings[field] !== undefined) {
+      settings[field] = normalizeSymbolList(settings[field]);
+    }
+  });
+
+  return settings;
+};
+
+const findUserSubscription = async (id: string, userId: string) => {
+  const subscription = await prisma.subscription.findFirst({
+    where: { id, userId },
+  });
+
+  if (!subscription) {
+    throw new AppError('Subscription not found', 404);
+  }
+
+  return subscription;
+};
+
+// Master follower counts include paused subscriptions; they are still following
+const refreshFollowerCount = async (tx: Prisma.TransactionClient, masterAccountId: string): Promise<void> => {
+  const followers = await tx.subscription.count({ where: { masterAccountId } });
+  await tx.brokerAccount.update({
+    where: { id: masterAccountId },
+    data: { followers },
+  });
+};
+
+const syncMasterWatch = (masterAccountId: string): void => {
+  copyEngine.syncMasterAccount(masterAccountId).catch((error) => {
+    logger.error(`Failed to sync copy engine for master account ${masterAccountId}:`, error);
+  });
+};
+
+// Get all subscriptions for user
+router.get('/', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const subscriptions = await prisma.subscription.findMany({
+    where: { userId: req.user!.id },
+    include: subscriptionInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({
+    success: true,
+    data: { subscriptions },
+  });
+}));
+
+// Create new subscription
+router.post('/', authenticate, [
+  body('masterAccountId').isUUID(),
+  body('followerAccountId').isUUID(),
+  ...settingsValidation,
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const { masterAccountId, followerAccountId } = req.body;
+  const settings = pickSettings(req.body);
+
+  if (masterAccountId === followerAccountId) {
+    throw new AppError('An account cannot copy itself', 400);
+  }
+
+  const [masterAccount, followerAccount] = await Promise.all([
+    prisma.brokerAccount.findUnique({ where: { id: masterAccountId } }),
+    prisma.brokerAccount.findFirst({
+      where: {
+        id: followerAccountId,
+        userId: req.user!.id,
+      },
+    }),
+  ]);
+
+  if (!masterAccount || !masterAccount.isActive) {
+    throw new AppError('Master account not found', 404);
+  }
+
+  if (masterAccount.accountType !== 'MASTER') {
+    throw new AppError('Master account must be a MASTER account', 400);
+  }
+
+  if (!followerAccount) {
+    throw new AppError('Follower account not found', 404);
+  }
+
+  if (followerAccount.accountType !== 'FOLLOWER') {
+    throw new AppError('Follower account must be a FOLLOWER account', 400);
+  }
+
+  validateSizingConfig(toSizingConfig({ multiplier: 1, sizingMode: 'MULTIPLIER', ...settings }));
+
+  const existingSubscription = await prisma.subscription.findUnique({
+    where: {
+      masterAccountId_followerAccountId: { masterAccountId, followerAccountId },
+    },
+  });
+
+  if (existingSubscription) {
+    throw new ConflictError('Follower account is already subscribed to this master');
+  }
+
+  try {
+    const subscription = await prisma.$transaction(async (tx) => {
+      const created = await tx.subscription.create({
+        data: {
+          userId: req.user!.id,
+          masterAccountId,
+          followerAccountId,
+          multiplier: 1,
+          maxPositionSize: 0,
+          dailyLossLimit: 0,
+          ...settings,
+        },
+        include: subscriptionInclude,
+      });
+
+      await refreshFollowerCount(tx, masterAccountId);
+      return created;
+    });
+
+    syncMasterWatch(masterAccountId);
+
+    logger.info(`Subscription created: ${followerAccount.name} copying ${masterAccount.name} for user ${req.user!.email}`);
+
+    res.status(201).json({
+      success: true,
+      data: { subscription },
+    });
+  } catch (error) {
+    // Lost a race with a concurrent request for the same pair
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('Follower account is already subscribed to this master');
+    }
+    throw error;
+  }
+}));
+
+// Update subscription
+router.put('/:id', authenticate, [
+  ...settingsValidation,
+  body('isActive').optional().isBoolean(),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const { id } = req.params;
+  const { isActive } = req.body;
+  const settings = pickSettings(req.body);
+
+  // Check if subscription exists and belongs to user
+  const existingSubscription = await findUserSubscription(id, req.user!.id);
+
+  validateSizingConfig(toSizingConfig({ ...existingSubscription, ...settings }));
+
+  // Toggling isActive goes through pause/resume so it shows up in the history
+  if (typeof isActive === 'boolean' && isActive !== existingSubscription.isActive) {
+    await (isActive ? resumeSubscription(existingSubscription) : pauseSubscription(existingSubscription));
+    syncMasterWatch(existingSubscription.masterAccountId);
+  }
+
+  const subscription = await prisma.subscription.update({
+    where: { id },
+    data: settings,
+    include: subscriptionInclude,
+  });
+
+  logger.info(`Subscription updated: ${subscription.id} for user ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    data: { subscription },
+  });
+}));
+
+// Delete subscription
+router.delete('/:id', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  // Check if subscription exists and belongs to user
+  const subscription = await findUserSubscription(id, req.user!.id);
+
+  // Copied trades keep their history; their subscription link is cleared
+  await prisma.$transaction(async (tx) => {
+    await tx.subscription.delete({ where: { id } });
+    await refreshFollowerCount(tx, subscription.masterAccountId);
+  });
+
+  syncMasterWatch(subscription.masterAccountId);
+
+  logger.info(`Subscription deleted: ${id} for user ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Subscription deleted successfully',
+  });
+}));
+
+// Pause copying
+router.post('/:id/pause', authenticate, [
+  body('reason').optional().trim().isLength({ min: 1, max: 500 }),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const existingSubscription = await findUserSubscription(req.params.id, req.user!.id);
+
+  if (!existingSubscription.isActive) {
+    throw new AppError('Subscription is already paused', 400);
+  }
+
+  await pauseSubscription(existingSubscription, req.body.reason);
+  syncMasterWatch(existingSubscription.masterAccountId);
+
+  const subscription = await prisma.subscription.findUnique({
+    where: { id: existingSubscription.id },
+    include: subscriptionInclude,
+  });
+
+  res.json({
+    success: true,
+    data: { subscription },
+  });
+}));
+
+// Resume copying
+router.post('/:id/resume', authenticate, [
+  body('reason').optional().trim().isLength({ min: 1, max: 500 }),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const existingSubscription = await findUserSubscription(req.params.id, req.user!.id);
+
+  if (existingSubscription.isActive) {
+    throw new AppError('Subscription is not paused', 400);
+  }
+
+  await resumeSubscription(existingSubscription, req.body.reason);
+  syncMasterWatch(existingSubscription.masterAccountId);
+
+  const subscription = await prisma.subscription.findUnique({
+    where: { id: existingSubscription.id },
+    include: subscriptionInclude,
+  });
+
+  res.json({
+    success: true,
+    data: { subscription },
+  });
+}));
+
+// Pause and resume history
+router.get('/:id/history', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const subscription = await findUserSubscription(req.params.id, req.user!.id);
+
+  const events = await prisma.subscriptionEvent.findMany({
+    where: { subscriptionId: subscription.id },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({
+    success: true,
+    data: { events },
+  });
+}));
+
+// Master trades this subscription skipped
+router.get('/:id/skips', authenticate, [
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const subscription = await findUserSubscription(req.params.id, req.user!.id);
+
+  const skips = await prisma.copySkip.findMany({
+    where: { subscriptionId: subscription.id },
+    orderBy: { createdAt: 'desc' },
+    take: parseInt((req.query.limit as string) || '50'),
+  });
+
+  res.json({
+    success: true,
+    data: { skips },
+  });
+}));
+
+// Per-symbol drift between the master's positions and this follower's
+router.get('/:id/drift', authenticate, [
+  query('refresh').optional().isBoolean(),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const { id } = await findUserSubscription(req.params.id, req.user!.id);
+
+  // Serve the periodic job's report unless a live check is asked for; live checks never trade
+  let report = req.query.refresh === 'true' ? null : await driftReconciler.getLastReport(id);
+
+  if (!report) {
+    const subscription = await prisma.subscription.findUnique({
+      where: { id },
+      include: { masterAccount: true, followerAccount: true },
+    });
+    report = await driftReconciler.reconcile(subscription!);
+  }
+
+  res.json({
+    success: true,
+    data: { drift: report },
+  });
+}));
+
+export default router;
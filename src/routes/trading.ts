@@ -0,0 +1,380 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../config/database';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError, ExternalServiceError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { BrokerError, TradeOrder } from '../services/brokerIntegrations/baseBroker';
+import { BrokerFactory } from '../services/brokerIntegrations/brokerFactory';
+import { normalizeOrder } from '../services/brokerIntegrations/orderNormalizer';
+import { runKillSwitch } from '../services/killSwitch';
+import { orderTracker, placementFields } from '../services/orderTracker';
+import { broadcastTradeUpdate } from '../services/websocket';
+
+const router = express.Router();
+
+// Exchange failures surface as 502 so clients can tell them from bad input
+const toBrokerFailure = (error: unknown, action: string): Error => {
+  if (error instanceof AppError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : 'Unknown broker error';
+  return new ExternalServiceError(`Failed to ${action}: ${message}`, error instanceof BrokerError && error.retryable ? 503 : 502);
+};
+
+const masterTradeSelect = {
+  id: true,
+  accountId: true,
+  symbol: true,
+  side: true,
+  quantity: true,
+  price: true,
+  executedPrice: true,
+  status: true,
+  executedAt: true,
+  createdAt: true,
+};
+
+// Get trade history
+router.get('/trades', authenticate, [
+  query('accountId').optional().isUUID(),
+  query('subscriptionId').optional().isUUID(),
+  query('symbol').optional().trim().isLength({ min: 1, max: 50 }),
+  query('side').optional().isIn(['BUY', 'SELL']),
+  query('status').optional().isIn(['PENDING', 'PARTIALLY_FILLED', 'EXECUTED', 'FAILED', 'CANCELLED']),
+  query('type').optional().isIn(['copy', 'manual']),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('cursor').optional().isUUID(),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('includeMaster').optional().isBoolean(),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const { accountId, subscriptionId, symbol, side, status, type, from, to, cursor } = req.query as Record<string, string | undefined>;
+  const limit = parseInt((req.query.limit as string) || '50');
+  const includeMaster = req.query.includeMaster === 'true';
+
+  const where: Prisma.TradeWhereInput = { userId: req.user!.id };
+  if (accountId) where.accountId = accountId;
+  if (subscriptionId) where.subscriptionId = subscriptionId;
+  if (symbol) where.symbol = symbol.toUpperCase();
+  if (side) where.side = side as Prisma.TradeWhereInput['side'];
+  if (status) where.status = status as Prisma.TradeWhereInput['status'];
+  if (type) where.isCopyTrade = type === 'copy';
+  if (from || to) {
+    where.createdAt = {
+      ...(from && { gte: new Date(from) }),
+      ...(to && { lte: new Date(to) }),
+    };
+  }
+
+  if (cursor) {
+    const cursorTrade = await prisma.trade.findFirst({
+      where: { id: cursor, userId: req.user!.id },
+      select: { id: true },
+    });
+
+    if (!cursorTrade) {
+      throw new AppError('Invalid cursor', 400);
+    }
+  }
+
+  // id breaks ties between trades created in the same millisecond
+  const trades = await prisma.trade.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    include: {
+      account: {
+        select: { id: true, name: true, broker: true },
+      },
+    },
+  });
+
+  const hasMore = trades.length > limit;
+  const page = hasMore ? trades.slice(0, limit) : trades;
+
+  let data: Array<typeof page[number] & { masterTrade?: unknown }> = page;
+
+  if (includeMaster) {
+    const masterTradeIds = Array.from(new Set(page.map(trade => trade.masterTradeId).filter((id): id is string => !!id)));
+    const masterTrades = masterTradeIds.length > 0
+      ? await prisma.trade.findMany({
+        where: { id: { in: masterTradeIds } },
+        select: masterTradeSelect,
+      })
+      : [];
+    const masterTradesById = new Map(masterTrades.map(trade => [trade.id, trade]));
+
+    data = page.map(trade => ({
+      ...trade,
+      masterTrade: trade.masterTradeId ? masterTradesById.get(trade.masterTradeId) || null : null,
+    }));
+  }
+
+  res.json({
+    success: true,
+    data: {
+      trades: data,
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+      },
+    },
+  });
+}));
+
+// Get open positions across all of the user's accounts
+router.get('/positions', authenticate, [
+  query('accountId').optional().isUUID(),
+  query('symbol').optional().trim().isLength({ min: 1, max: 50 }),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const { accountId, symbol } = req.query as Record<string, string | undefined>;
+
+  const positions = await prisma.position.findMany({
+    where: {
+      isOpen: true,
+      account: { userId: req.user!.id },
+      ...(accountId && { accountId }),
+      ...(symbol && { symbol: symbol.toUpperCase() }),
+    },
+    include: {
+      account: {
+        select: { id: true, name: true, broker: true, accountType: true, lastSync: true },
+      },
+    },
+    orderBy: [{ accountId: 'asc' }, { symbol: 'asc' }],
+  });
+
+  // Positions reflect each account's last sync or poll
+  const unrealizedPnl = positions.reduce((sum, position) => sum + Number(position.pnl), 0);
+
+  res.json({
+    success: true,
+    data: {
+      positions: positions.map(position => ({
+        ...position,
+        markPrice: position.currentPrice,
+        unrealizedPnl: position.pnl,
+      })),
+      summary: {
+        openPositions: positions.length,
+        accounts: new Set(positions.map(position => position.accountId)).size,
+        unrealizedPnl,
+      },
+    },
+  });
+}));
+
+// Place a manual order
+router.post('/orders', authenticate, [
+  body('accountId').isUUID(),
+  body('symbol').trim().isLength({ min: 1, max: 50 }),
+  body('side').isIn(['buy', 'sell']),
+  body('type').isIn(['market', 'limit']),
+  body('quantity').isFloat({ gt: 0 }),
+  body('price').optional().isFloat({ gt: 0 }),
+  body('stopPrice').optional().isFloat({ gt: 0 }),
+  body('timeInForce').optional().isIn(['GTC', 'IOC', 'FOK']),
+  body('reduceOnly').optional().isBoolean(),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const { accountId, side, type, timeInForce, reduceOnly } = req.body;
+  const symbol = (req.body.symbol as string).toUpperCase();
+  const quantity = Number(req.body.quantity);
+  const price = req.body.price !== undefined ? Number(req.body.price) : undefined;
+  const stopPrice = req.body.stopPrice !== undefined ? Number(req.body.stopPrice) : undefined;
+
+  if (type === 'limit' && price === undefined) {
+    throw new ValidationError('Validation failed', [{ field: 'price', message: 'Limit orders require a price' }]);
+  }
+
+  const account = await prisma.brokerAccount.findFirst({
+    where: {
+      id: accountId,
+      userId: req.user!.id,
+    },
+  });
+
+  if (!account) {
+    throw new AppError('Account not found', 404);
+  }
+
+  if (!account.isActive) {
+    throw new AppError('Account is inactive', 400);
+  }
+
+  const broker = BrokerFactory.createAccountBroker(account);
+
+  // Check the order against the venue's listing before it reaches the exchange
+  let referencePrice = price;
+  let instrument;
+  try {
+    instrument = await broker.getInstrument(symbol);
+    if (instrument && referencePrice === undefined) {
+      referencePrice = (await broker.getMarketData(symbol)).price;
+    }
+  } catch (error) {
+    throw toBrokerFailure(error, 'load market data');
+  }
+
+  if (!instrument) {
+    throw new AppError(`${symbol} is not a tradable ${account.broker} instrument`, 400);
+  }
+
+  const normalized = normalizeOrder(instrument, {
+    side,
+    baseQuantity: quantity * instrument.contractValue,
+    referencePrice: referencePrice!,
+    price,
+    reduceOnly,
+  });
+
+  if (!normalized.ok) {
+    throw new ValidationError('Order rejected', [{ field: 'quantity', message: normalized.reason }]);
+  }
+
+  if (normalized.order.quantity !== quantity) {
+    throw new ValidationError('Order rejected', [
+      { field: 'quantity', message: `Quantity must be a multiple of ${instrument.lotSize} (nearest valid: ${normalized.order.quantity})` },
+    ]);
+  }
+
+  if (price !== undefined && normalized.order.price !== price) {
+    throw new ValidationError('Order rejected', [
+      { field: 'price', message: `Price must be a multiple of ${instrument.tickSize}` },
+    ]);
+  }
+
+  const order: TradeOrder = { symbol, side, type, quantity, price, stopPrice, timeInForce, reduceOnly };
+
+  const trade = await prisma.trade.create({
+    data: {
+      userId: req.user!.id,
+      accountId: account.id,
+      symbol,
+      side: side === 'buy' ? 'BUY' : 'SELL',
+      quantity,
+      price: referencePrice!,
+      isCopyTrade: false,
+    },
+  });
+
+  try {
+    const result = await broker.placeOrder(order);
+
+    const placedTrade = await prisma.trade.update({
+      where: { id: trade.id },
+      data: placementFields(result),
+    });
+
+    orderTracker.track(placedTrade, broker, result);
+    broadcastTradeUpdate(placedTrade);
+
+    logger.info(`Manual order placed: ${side} ${quantity} ${symbol} on ${account.name} for user ${req.user!.email}`);
+
+    res.status(201).json({
+      success: true,
+      data: { trade: placedTrade },
+    });
+  } catch (error) {
+    const failedTrade = await prisma.trade.update({
+      where: { id: trade.id },
+      data: { status: 'FAILED' },
+    });
+
+    broadcastTradeUpdate(failedTrade);
+    throw toBrokerFailure(error, 'place order');
+  }
+}));
+
+// Cancel an open order
+router.delete('/orders/:id', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  const trade = await prisma.trade.findFirst({
+    where: {
+      id,
+      userId: req.user!.id,
+    },
+    include: { account: true },
+  });
+
+  if (!trade) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (!['PENDING', 'PARTIALLY_FILLED'].includes(trade.status) || !trade.brokerTradeId) {
+    throw new AppError('Only open orders can be cancelled', 400);
+  }
+
+  const broker = BrokerFactory.createAccountBroker(trade.account);
+
+  let cancelled: boolean;
+  try {
+    cancelled = await broker.cancelOrder(trade.brokerTradeId, trade.symbol);
+  } catch (error) {
+    throw toBrokerFailure(error, 'cancel order');
+  }
+
+  if (!cancelled) {
+    throw new ExternalServiceError('Broker did not cancel the order', 502);
+  }
+
+  // The venue may have filled part of the order first, so its final figures come from the tracker
+  const { account, ...openTrade } = trade;
+  let cancelledTrade = openTrade;
+  try {
+    cancelledTrade = await orderTracker.refresh(openTrade, broker);
+  } catch (error) {
+    logger.warn(`Could not confirm cancellation of ${trade.brokerTradeId}, leaving it to the order tracker:`, error);
+  }
+
+  logger.info(`Order cancelled: ${trade.brokerTradeId} on ${trade.account.name} for user ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    data: { trade: cancelledTrade },
+  });
+}));
+
+// Emergency stop: halt copying and flatten every account the user owns
+router.post('/kill-switch', authenticate, [
+  body('reason').optional().trim().isLength({ min: 1, max: 500 }),
+], asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const report = await runKillSwitch(req.user!.id, {
+    reason: req.body.reason,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  res.json({
+    success: true,
+    data: { report },
+  });
+}));
+
+export default router;
@@ -8,11 +8,17 @@ import dotenv from 'dotenv';
 
 import { errorHandler, notFound } from './middleware/errorHandler';
 import { logger } from './utils/logger';
+import { connectRedis } from './config/redis';
+import { copyEngine } from './services/copyEngine/copyEngine';
+import { orderTracker } from './services/orderTracker';
 
 // Routes
 import authRoutes from './routes/auth';
 import accountRoutes from './routes/accounts';
+import subscriptionRoutes from './routes/subscriptions';
+import tradingRoutes from './routes/trading';
 import healthRoutes from './routes/health';
+import adminRoutes from './routes/admin';
 
 // Load environment variables
 dotenv.config();
@@ -73,6 +79,9 @@ app.use('/api/health', healthRoutes);
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/accounts', accountRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/trading', tradingRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -106,6 +115,16 @@ if (process.env.NODE_ENV !== 'production') {
     try {
       logger.info('Server initialized successfully');
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+
+      // Start replicating master fills onto follower accounts; the order queue lives in Redis
+      connectRedis().then(() => copyEngine.start()).catch((error) => {
+        logger.error('Failed to start copy engine:', error);
+      });
+
+      // Follow working orders, including any left open by the last run, to a final state
+      orderTracker.start().catch((error) => {
+        logger.error('Failed to start order tracker:', error);
+      });
       
       app.listen(PORT, () => {
         logger.info(`Server running on http://localhost:${PORT}`);
@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import WebSocket from 'ws';
 import { logger } from '../../utils/logger';
 
 export interface BrokerCredentials {
@@ -6,6 +7,7 @@ export interface BrokerCredentials {
   apiSecret: string;
   passphrase?: string;
   sandbox?: boolean;
+  accountId?: string; // Stored account the instance trades for; the paper broker keeps its state under it
 }
 
 export interface TradeOrder {
@@ -16,6 +18,8 @@ export interface TradeOrder {
   price?: number;
   stopPrice?: number;
   timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  reduceOnly?: boolean;
+  clientOrderId?: string; // Idempotency key, so a retried order is not placed twice
 }
 
 export interface TradeResult {
@@ -24,9 +28,11 @@ export interface TradeResult {
   side: 'buy' | 'sell';
   quantity: number;
   price: number;
-  status: 'pending' | 'filled' | 'cancelled' | 'rejected';
+  status: 'pending' | 'partially_filled' | 'filled' | 'cancelled' | 'rejected';
   timestamp: Date;
   fees?: number;
+  filledQuantity?: number;  // Cumulative, where the venue reports it
+  averagePrice?: number;    // Average fill price so far
 }
 
 export interface AccountBalance {
@@ -54,10 +60,110 @@ export interface MarketData {
   timestamp: Date;
 }
 
+// Tradable perpetual contract as listed by the exchange
+export interface Instrument {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  settleAsset?: string;
+  tickSize: number;
+  lotSize: number;       // Quantity step, in the venue's order units
+  minQuantity: number;   // In the venue's order units
+  minNotional: number;   // In quote currency, 0 when the venue has no minimum
+  contractValue: number; // Base asset per order unit; 1 where orders are sized in coins
+}
+
+// Normalized private stream events, emitted as 'orderUpdate' and 'fill'
+export interface OrderUpdate {
+  orderId: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: string;
+  status: TradeResult['status'];
+  quantity: number;
+  filledQuantity: number;
+  price: number;
+  averagePrice: number;
+  timestamp: Date;
+}
+
+export interface OrderFill {
+  orderId: string;
+  tradeId?: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee?: number;
+  feeAsset?: string;
+  timestamp: Date;
+}
+
+// Venue socket kept open by BaseBroker; onOpen runs again after every reconnect to replay auth and subscriptions
+export interface StreamOptions {
+  label: string;  // Used in log lines, e.g. 'Bybit private WebSocket'
+  url: () => string | Promise<string>;
+  onOpen: (ws: WebSocket) => Promise<void>;
+  onMessage: (data: WebSocket.Data) => void;
+  heartbeat: {
+    intervalMs: number;
+    message?: string; // Protocol ping frames are sent when the venue has no application-level ping
+  };
+}
+
+// Emitted as 'disconnected' and 'reconnected' when a venue socket drops and comes back
+export interface StreamEvent {
+  stream: string;
+  attempt: number;
+  reason?: string;
+  downtimeMs?: number;
+}
+
+// Measured offset of the venue's clock from ours, emitted as 'clockSynced'
+export interface ClockSkew {
+  offsetMs: number;     // Venue time minus local time
+  roundTripMs: number;
+  syncedAt: Date | null;
+}
+
+interface ManagedStream {
+  options: StreamOptions;
+  socket: WebSocket | null;
+  connecting: Promise<WebSocket> | null;
+  heartbeatTimer: NodeJS.Timeout | null;
+  reconnectTimer: NodeJS.Timeout | null;
+  attempt: number;
+  lastMessageAt: number;
+  disconnectedAt: number | null;
+}
+
+// Broker failure; retryable ones are worth sending again after a pause
+export class BrokerError extends Error {
+  public readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean = false) {
+    super(message);
+    this.name = 'BrokerError';
+    this.retryable = retryable;
+  }
+}
+
 export abstract class BaseBroker extends EventEmitter {
   protected credentials: BrokerCredentials;
   protected isConnected: boolean = false;
-  protected rateLimiter: Map<string, number> = new Map();
+  private instrumentCache: Map<string, Instrument> = new Map();
+  private instrumentCacheLoadedAt: number = 0;
+  private readonly instrumentCacheTtlMs = 60 * 60 * 1000;
+  private streams: Map<string, ManagedStream> = new Map();
+  private readonly reconnectBaseDelayMs = parseInt(process.env.WS_RECONNECT_BASE_DELAY_MS || '1000');
+  private readonly reconnectMaxDelayMs = parseInt(process.env.WS_RECONNECT_MAX_DELAY_MS || '60000');
+  protected readonly marketSymbols: Set<string> = new Set(); // Resubscribed whenever the market stream reconnects
+  protected readonly recvWindowMs = parseInt(process.env.BROKER_RECV_WINDOW_MS || '5000');
+  protected readonly clockSyncIntervalMs = parseInt(process.env.CLOCK_SYNC_INTERVAL_MS || '300000');
+  private clockSkew: ClockSkew = { offsetMs: 0, roundTripMs: 0, syncedAt: null };
+  private clockCheckedAt: number = 0;
+  private clockSync: Promise<void> | null = null;
 
   constructor(credentials: BrokerCredentials) {
     super();
@@ -72,49 +178,364 @@ export abstract class BaseBroker extends EventEmitter {
   abstract placeOrder(order: TradeOrder): Promise<TradeResult>;
   abstract cancelOrder(orderId: string, symbol: string): Promise<boolean>;
   abstract getOrderStatus(orderId: string, symbol: string): Promise<TradeResult>;
+  abstract getOpenOrders(): Promise<TradeResult[]>;
+  abstract getMarketData(symbol: string): Promise<MarketData>;
   abstract subscribeToMarketData(symbols: string[]): Promise<void>;
   abstract unsubscribeFromMarketData(symbols: string[]): Promise<void>;
+  abstract subscribeToUserData(): Promise<void>;
+  abstract getInstruments(): Promise<Instrument[]>;
+  abstract unsubscribeFromUserData(): Promise<void>;
 
-  // Rate limiting helper
-  protected checkRateLimit(endpoint: string, limit: number, windowMs: number): boolean {
-    const now = Date.now();
-    const key = `${endpoint}_${Math.floor(now / windowMs)}`;
-    const current = this.rateLimiter.get(key) || 0;
+  // Cached instrument metadata for order normalization
+  async getInstrument(symbol: string): Promise<Instrument | undefined> {
+    const age = Date.now() - this.instrumentCacheLoadedAt;
+    const isStale = age > this.instrumentCacheTtlMs;
+    const isMissing = !this.instrumentCache.has(symbol) && age > 60000;
 
-    if (current >= limit) {
-      logger.warn(`Rate limit exceeded for ${endpoint}`);
-      return false;
+    if (isStale || isMissing) {
+      const instruments = await this.getInstruments();
+      this.instrumentCache = new Map(instruments.map(instrument => [instrument.symbol, instrument]));
+      this.instrumentCacheLoadedAt = Date.now();
     }
 
-    this.rateLimiter.set(key, current + 1);
-    
-    // Clean up old entries
-    for (const [k, v] of this.rateLimiter.entries()) {
-      if (k.split('_')[1] && parseInt(k.split('_')[1]) < Math.floor((now - windowMs) / windowMs)) {
-        this.rateLimiter.delete(k);
+    return this.instrumentCache.get(symbol);
+  }
+
+  // Open a named socket, or return it if already open; drops are then retried with backoff until closeStream
+  protected async openStream(name: string, options: StreamOptions): Promise<WebSocket> {
+    const existing = this.streams.get(name);
+
+    if (existing?.socket && existing.socket.readyState === WebSocket.OPEN) {
+      return existing.socket;
+    }
+    if (existing?.connecting) {
+      return existing.connecting;
+    }
+
+    // A caller that needs the socket now does not wait out a pending backoff
+    if (existing) {
+      if (existing.reconnectTimer) {
+        clearTimeout(existing.reconnectTimer);
+        existing.reconnectTimer = null;
+      }
+      existing.options = options;
+      return this.reconnectStream(name, existing);
+    }
+
+    const stream: ManagedStream = {
+      options,
+      socket: null,
+      connecting: null,
+      heartbeatTimer: null,
+      reconnectTimer: null,
+      attempt: 0,
+      lastMessageAt: 0,
+      disconnectedAt: null,
+    };
+    this.streams.set(name, stream);
+
+    try {
+      return await this.connectStream(name, stream);
+    } catch (error) {
+      // The first connection is the caller's to retry
+      if (this.streams.get(name) === stream) {
+        this.streams.delete(name);
+      }
+      throw error;
+    }
+  }
+
+  protected closeStream(name: string): void {
+    const stream = this.streams.get(name);
+    if (!stream) {
+      return;
+    }
+
+    this.streams.delete(name);
+    this.stopHeartbeat(stream);
+    if (stream.reconnectTimer) {
+      clearTimeout(stream.reconnectTimer);
+      stream.reconnectTimer = null;
+    }
+
+    const socket = stream.socket;
+    stream.socket = null;
+    socket?.close();
+  }
+
+  protected getStream(name: string): WebSocket | null {
+    const socket = this.streams.get(name)?.socket;
+    return socket && socket.readyState === WebSocket.OPEN ? socket : null;
+  }
+
+  // Resolves with the first parsed message that matches, e.g. a login reply
+  protected waitForMessage(ws: WebSocket, matches: (message: any) => boolean, timeoutMs: number = 10000): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        ws.off('message', onMessage);
+        ws.off('close', onClose);
+      };
+
+      const onMessage = (data: WebSocket.Data) => {
+        let message: any;
+        try {
+          message = JSON.parse(data.toString());
+        } catch (error) {
+          return;
+        }
+
+        if (matches(message)) {
+          cleanup();
+          resolve(message);
+        }
+      };
+
+      const onClose = () => {
+        cleanup();
+        reject(new BrokerError('Socket closed before the venue replied', true));
+      };
+
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new BrokerError('Timed out waiting for the venue to reply', true));
+      }, timeoutMs);
+
+      ws.on('message', onMessage);
+      ws.on('close', onClose);
+    });
+  }
+
+  private async connectStream(name: string, stream: ManagedStream): Promise<WebSocket> {
+    stream.connecting = this.establishStream(name, stream);
+
+    try {
+      return await stream.connecting;
+    } finally {
+      stream.connecting = null;
+    }
+  }
+
+  private async establishStream(name: string, stream: ManagedStream): Promise<WebSocket> {
+    const { options } = stream;
+    const url = await options.url();
+    const ws = new WebSocket(url, { handshakeTimeout: 10000 });
+
+    let opened = false;
+
+    // Failures before the handshake completes reach the caller as a rejection instead
+    ws.on('error', (error) => {
+      if (opened) {
+        logger.error(`${options.label} error:`, error);
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      ws.once('open', () => resolve());
+      ws.once('error', reject);
+    });
+    opened = true;
+
+    ws.on('message', (data: WebSocket.Data) => {
+      stream.lastMessageAt = Date.now();
+      options.onMessage(data);
+    });
+    ws.on('pong', () => {
+      stream.lastMessageAt = Date.now();
+    });
+    ws.on('close', (code: number, reason: Buffer) => {
+      this.handleStreamClose(name, stream, ws, code, reason.toString());
+    });
+
+    try {
+      await options.onOpen(ws);
+
+      if (ws.readyState !== WebSocket.OPEN) {
+        throw new BrokerError(`${options.label} closed during setup`, true);
+      }
+      if (this.streams.get(name) !== stream) {
+        throw new BrokerError(`${options.label} was closed while connecting`);
+      }
+    } catch (error) {
+      ws.terminate();
+      throw error;
+    }
+
+    stream.socket = ws;
+    stream.lastMessageAt = Date.now();
+    this.startHeartbeat(stream);
+    logger.info(`${options.label} connected`);
+
+    return ws;
+  }
+
+  private handleStreamClose(name: string, stream: ManagedStream, ws: WebSocket, code: number, reason: string): void {
+    // Sockets closed on purpose or never fully set up are not reconnected from here
+    if (stream.socket !== ws || this.streams.get(name) !== stream) {
+      return;
+    }
+
+    this.stopHeartbeat(stream);
+    stream.socket = null;
+    stream.disconnectedAt = Date.now();
+
+    logger.warn(`${stream.options.label} disconnected (${code}${reason ? `: ${reason}` : ''}), reconnecting`);
+    const event: StreamEvent = { stream: name, attempt: 0, reason: reason || `code ${code}` };
+    this.emit('disconnected', event);
+
+    this.scheduleReconnect(name, stream);
+  }
+
+  private scheduleReconnect(name: string, stream: ManagedStream): void {
+    const delay = this.getReconnectDelay(stream.attempt);
+    stream.attempt += 1;
+
+    stream.reconnectTimer = setTimeout(() => {
+      stream.reconnectTimer = null;
+      if (this.streams.get(name) !== stream) {
+        return;
+      }
+
+      // Failures are logged and rescheduled by reconnectStream
+      this.reconnectStream(name, stream).catch(() => undefined);
+    }, delay);
+  }
+
+  private async reconnectStream(name: string, stream: ManagedStream): Promise<WebSocket> {
+    try {
+      const ws = await this.connectStream(name, stream);
+      const event: StreamEvent = {
+        stream: name,
+        attempt: stream.attempt,
+        downtimeMs: stream.disconnectedAt ? Date.now() - stream.disconnectedAt : 0,
+      };
+      logger.info(`${stream.options.label} reconnected after ${stream.attempt} attempt(s)`);
+
+      stream.attempt = 0;
+      stream.disconnectedAt = null;
+      this.emit('reconnected', event);
+      return ws;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`${stream.options.label} reconnect attempt ${stream.attempt} failed: ${message}`);
+      if (this.streams.get(name) === stream && !stream.socket && !stream.reconnectTimer) {
+        this.scheduleReconnect(name, stream);
+      }
+      throw error;
+    }
+  }
+
+  // Exponential backoff with jitter, so many accounts on one venue do not reconnect in lockstep
+  private getReconnectDelay(attempt: number): number {
+    const ceiling = Math.min(this.reconnectMaxDelayMs, this.reconnectBaseDelayMs * Math.pow(2, attempt));
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  private startHeartbeat(stream: ManagedStream): void {
+    const { intervalMs, message } = stream.options.heartbeat;
+
+    this.stopHeartbeat(stream);
+    stream.heartbeatTimer = setInterval(() => {
+      const ws = stream.socket;
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      // Nothing back for two intervals means the connection is dead even if TCP has not noticed
+      if (Date.now() - stream.lastMessageAt > intervalMs * 2) {
+        logger.warn(`${stream.options.label} went silent, dropping the connection`);
+        ws.terminate();
+        return;
       }
+
+      if (message) {
+        ws.send(message);
+      } else {
+        ws.ping();
+      }
+    }, intervalMs);
+  }
+
+  private stopHeartbeat(stream: ManagedStream): void {
+    if (stream.heartbeatTimer) {
+      clearInterval(stream.heartbeatTimer);
+      stream.heartbeatTimer = null;
     }
+  }
+
+  // Venue server time in ms; null where the venue has no time endpoint
+  protected async fetchServerTime(): Promise<number | null> {
+    return null;
+  }
+
+  // Current time on the venue's clock, for signing; the offset is re-measured once it is older than the sync interval
+  protected async serverNow(): Promise<number> {
+    if (Date.now() - this.clockCheckedAt > this.clockSyncIntervalMs) {
+      await this.syncClock();
+    }
+    return Date.now() + this.clockSkew.offsetMs;
+  }
+
+  // Failures keep the last known offset, so signing carries on
+  async syncClock(): Promise<void> {
+    if (!this.clockSync) {
+      this.clockSync = this.measureClockOffset()
+        .catch((error) => {
+          logger.warn(`${this.constructor.name} server time sync failed:`, error);
+        })
+        .finally(() => {
+          this.clockCheckedAt = Date.now();
+          this.clockSync = null;
+        });
+    }
+    return this.clockSync;
+  }
+
+  private async measureClockOffset(): Promise<void> {
+    const sentAt = Date.now();
+    const serverTime = await this.fetchServerTime();
+    if (serverTime !== null) {
+      this.recordServerTime(serverTime, sentAt, Date.now());
+    }
+  }
+
+  // Assumes the venue stamped its reply halfway through the round trip
+  protected recordServerTime(serverTime: number, sentAt: number, receivedAt: number): void {
+    this.clockSkew = {
+      offsetMs: Math.round(serverTime - (sentAt + receivedAt) / 2),
+      roundTripMs: receivedAt - sentAt,
+      syncedAt: new Date(receivedAt),
+    };
+
+    if (Math.abs(this.clockSkew.offsetMs) > this.recvWindowMs / 2) {
+      logger.warn(`${this.constructor.name} clock is ${this.clockSkew.offsetMs}ms off the venue; signing with the corrected time`);
+    }
+    this.emit('clockSynced', this.clockSkew);
+  }
 
-    return true;
+  getClockSkew(): ClockSkew {
+    return this.clockSkew;
   }
 
   // Common error handling
-  protected handleError(error: any, context: string): Error {
+  protected handleError(error: any, context: string): BrokerError {
     logger.error(`Broker error in ${context}:`, error);
     
     if (error.response?.status === 401) {
-      return new Error('Invalid API credentials');
-    } else if (error.response?.status === 429) {
-      return new Error('Rate limit exceeded');
+      return new BrokerError('Invalid API credentials');
+    } else if (error.response?.status === 429 || error.message === 'Rate limit exceeded') {
+      return new BrokerError('Rate limit exceeded', true);
     } else if (error.response?.status >= 500) {
-      return new Error('Broker service unavailable');
+      return new BrokerError('Broker service unavailable', true);
     } else if (error.code === 'ECONNREFUSED') {
-      return new Error('Connection refused by broker');
-    } else if (error.code === 'ETIMEDOUT') {
-      return new Error('Request timeout');
+      return new BrokerError('Connection refused by broker', true);
+    } else if (error.code === 'ETIMEDOUT' || error.code === 'ECONNABORTED') {
+      return new BrokerError('Request timeout', true);
+    } else if (error.code === 'ECONNRESET') {
+      return new BrokerError('Connection reset by broker', true);
     }
 
-    return new Error(error.message || 'Unknown broker error');
+    return new BrokerError(error.message || 'Unknown broker error');
   }
 
   // Health check
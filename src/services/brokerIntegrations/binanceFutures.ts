@@ -1,22 +1,27 @@
 import axios, { AxiosInstance } from 'axios';
 import crypto from 'crypto';
 import WebSocket from 'ws';
-import { BaseBroker, BrokerCredentials, TradeOrder, TradeResult, AccountBalance, Position, MarketData } from './baseBroker';
+import { BaseBroker, BrokerCredentials, TradeOrder, TradeResult, AccountBalance, Position, MarketData, OrderUpdate, OrderFill, Instrument, StreamOptions } from './baseBroker';
+import { getBrokerEndpoints } from './endpoints';
+import { RateLimiter } from './rateLimiter';
 import { logger } from '../../utils/logger';
 
 export class BinanceFuturesBroker extends BaseBroker {
   private apiClient: AxiosInstance;
-  private wsClient: WebSocket | null = null;
-  private readonly baseURL = 'https://fapi.binance.com';
-  private readonly wsURL = 'wss://fstream.binance.com/ws';
+  private listenKey: string | null = null;
+  private listenKeyKeepAlive: NodeJS.Timeout | null = null;
+  private readonly endpoints = getBrokerEndpoints('BINANCE', this.credentials.sandbox);
+  private readonly rateLimiter = new RateLimiter('BINANCE', this.credentials);
+  private readonly listenKeyKeepAliveMs = 30 * 60 * 1000;
 
   constructor(credentials: BrokerCredentials) {
     super(credentials);
     
     this.apiClient = axios.create({
-      baseURL: this.baseURL,
+      baseURL: this.endpoints.restURL,
       timeout: 10000,
       headers: {
+        ...this.endpoints.headers,
         'Content-Type': 'application/json',
         'X-MBX-APIKEY': this.credentials.apiKey,
       },
@@ -26,11 +31,16 @@ export class BinanceFuturesBroker extends BaseBroker {
   }
 
   private setupInterceptors(): void {
-    this.apiClient.interceptors.request.use((config) => {
-      // Add signature for authenticated endpoints
-      if (config.url?.includes('/fapi/v1/') || config.url?.includes('/fapi/v2/')) {
-        const timestamp = Date.now();
+    this.apiClient.interceptors.request.use(async (config) => {
+      // Wait for the venue's rate limit before signing, so the timestamp is fresh when sent
+      await this.rateLimiter.acquire(config);
+
+      // Add signature for authenticated endpoints (user stream endpoints only need the API key)
+      const isUserStream = config.url?.includes('/listenKey');
+      if (!isUserStream && (config.url?.includes('/fapi/v1/') || config.url?.includes('/fapi/v2/'))) {
+        const timestamp = await this.serverNow();
         const params = new URLSearchParams(config.params);
+        params.append('recvWindow', this.recvWindowMs.toString());
         params.append('timestamp', timestamp.toString());
 
         const signature = crypto
@@ -46,17 +56,32 @@ export class BinanceFuturesBroker extends BaseBroker {
     });
 
     this.apiClient.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        this.rateLimiter.observe(response);
+        return response;
+      },
       (error) => {
+        // 418 means the IP was banned for ignoring 429s
+        if (error.response?.status === 429 || error.response?.status === 418) {
+          this.rateLimiter.backOff(error.response);
+        }
         throw this.handleError(error, 'Binance Futures API');
       }
     );
   }
 
+  protected async fetchServerTime(): Promise<number | null> {
+    const response = await axios.get(`${this.endpoints.restURL}/fapi/v1/time`, {
+      timeout: 10000,
+      headers: this.endpoints.headers,
+    });
+    return response.data.serverTime;
+  }
+
   async connect(): Promise<void> {
     try {
       await this.validateCredentials();
-      await this.connectWebSocket();
+      await this.openStream('market', this.marketStream());
       this.isConnected = true;
       logger.info('Connected to Binance Futures');
     } catch (error) {
@@ -65,20 +90,14 @@ export class BinanceFuturesBroker extends BaseBroker {
   }
 
   async disconnect(): Promise<void> {
-    if (this.wsClient) {
-      this.wsClient.close();
-      this.wsClient = null;
-    }
+    await this.unsubscribeFromUserData();
+    this.closeStream('market');
     this.isConnected = false;
     logger.info('Disconnected from Binance Futures');
   }
 
   async validateCredentials(): Promise<boolean> {
     try {
-      if (!this.checkRateLimit('validate', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/fapi/v2/account');
       return response.status === 200 && response.data.canTrade;
     } catch (error) {
@@ -89,10 +108,6 @@ export class BinanceFuturesBroker extends BaseBroker {
 
   async getAccountBalance(): Promise<AccountBalance[]> {
     try {
-      if (!this.checkRateLimit('balance', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/fapi/v2/balance');
       
       return response.data
@@ -110,10 +125,6 @@ export class BinanceFuturesBroker extends BaseBroker {
 
   async getPositions(): Promise<Position[]> {
     try {
-      if (!this.checkRateLimit('positions', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/fapi/v2/positionRisk');
       
       return response.data
@@ -134,10 +145,6 @@ export class BinanceFuturesBroker extends BaseBroker {
 
   async placeOrder(order: TradeOrder): Promise<TradeResult> {
     try {
-      if (!this.checkRateLimit('order', 20, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const orderData: any = {
         symbol: order.symbol,
         side: order.side.toUpperCase(),
@@ -154,7 +161,16 @@ export class BinanceFuturesBroker extends BaseBroker {
         orderData.stopPrice = order.stopPrice.toString();
       }
 
-      const response = await this.apiClient.post('/fapi/v1/order', orderData);
+      if (order.reduceOnly) {
+        orderData.reduceOnly = 'true';
+      }
+
+      if (order.clientOrderId) {
+        orderData.newClientOrderId = order.clientOrderId;
+      }
+
+      // Order parameters go in the query string so the signature covers them
+      const response = await this.apiClient.post('/fapi/v1/order', undefined, { params: orderData });
       
       return {
         orderId: response.data.orderId.toString(),
@@ -165,6 +181,8 @@ export class BinanceFuturesBroker extends BaseBroker {
         status: this.mapOrderStatus(response.data.status),
         timestamp: new Date(response.data.updateTime),
         fees: 0, // Fees are calculated separately in Binance
+        filledQuantity: parseFloat(response.data.executedQty || '0'),
+        averagePrice: parseFloat(response.data.avgPrice || '0'),
       };
     } catch (error) {
       throw this.handleError(error, 'Binance Futures place order');
@@ -173,10 +191,6 @@ export class BinanceFuturesBroker extends BaseBroker {
 
   async cancelOrder(orderId: string, symbol: string): Promise<boolean> {
     try {
-      if (!this.checkRateLimit('cancel', 20, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.delete('/fapi/v1/order', {
         params: {
           symbol: symbol,
@@ -192,10 +206,6 @@ export class BinanceFuturesBroker extends BaseBroker {
 
   async getOrderStatus(orderId: string, symbol: string): Promise<TradeResult> {
     try {
-      if (!this.checkRateLimit('order_status', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/fapi/v1/order', {
         params: {
           symbol: symbol,
@@ -204,6 +214,7 @@ export class BinanceFuturesBroker extends BaseBroker {
       });
 
       const order = response.data;
+      const filledQuantity = parseFloat(order.executedQty || '0');
       return {
         orderId: order.orderId.toString(),
         symbol: order.symbol,
@@ -212,73 +223,259 @@ export class BinanceFuturesBroker extends BaseBroker {
         price: parseFloat(order.price || order.avgPrice || '0'),
         status: this.mapOrderStatus(order.status),
         timestamp: new Date(order.updateTime),
-        fees: parseFloat(order.commission || '0'),
+        fees: filledQuantity > 0 ? await this.getOrderFees(orderId, symbol) : 0,
+        filledQuantity,
+        averagePrice: parseFloat(order.avgPrice || '0'),
       };
     } catch (error) {
       throw this.handleError(error, 'Binance Futures get order status');
     }
   }
 
-  async subscribeToMarketData(symbols: string[]): Promise<void> {
-    if (!this.wsClient || this.wsClient.readyState !== WebSocket.OPEN) {
-      await this.connectWebSocket();
+  // The order endpoint carries no commission; it is only reported per trade
+  private async getOrderFees(orderId: string, symbol: string): Promise<number> {
+    const response = await this.apiClient.get('/fapi/v1/userTrades', {
+      params: {
+        symbol: symbol,
+        orderId: orderId,
+      },
+    });
+
+    return response.data.reduce((total: number, trade: any) => total + parseFloat(trade.commission || '0'), 0);
+  }
+
+  async getOpenOrders(): Promise<TradeResult[]> {
+    try {
+      const response = await this.apiClient.get('/fapi/v1/openOrders');
+
+      return response.data.map((order: any) => ({
+        orderId: order.orderId.toString(),
+        symbol: order.symbol,
+        side: order.side.toLowerCase(),
+        quantity: parseFloat(order.origQty),
+        price: parseFloat(order.price || '0'),
+        status: this.mapOrderStatus(order.status),
+        timestamp: new Date(order.updateTime || order.time),
+      }));
+    } catch (error) {
+      throw this.handleError(error, 'Binance Futures get open orders');
     }
+  }
 
-    const streams = symbols.map(symbol => `${symbol.toLowerCase()}@ticker`);
-    const subscribeMessage = {
-      method: 'SUBSCRIBE',
-      params: streams,
-      id: Date.now(),
-    };
+  async getInstruments(): Promise<Instrument[]> {
+    try {
+      const response = await this.apiClient.get('/fapi/v1/exchangeInfo');
+
+      return response.data.symbols
+        .filter((symbol: any) => symbol.contractType === 'PERPETUAL' && symbol.status === 'TRADING')
+        .map((symbol: any) => {
+          const filter = (type: string) => symbol.filters.find((f: any) => f.filterType === type) || {};
+          return {
+            symbol: symbol.symbol,
+            baseAsset: symbol.baseAsset,
+            quoteAsset: symbol.quoteAsset,
+            settleAsset: symbol.marginAsset,
+            tickSize: parseFloat(filter('PRICE_FILTER').tickSize || '0'),
+            lotSize: parseFloat(filter('LOT_SIZE').stepSize || '0'),
+            minQuantity: parseFloat(filter('LOT_SIZE').minQty || '0'),
+            minNotional: parseFloat(filter('MIN_NOTIONAL').notional || '0'),
+            contractValue: 1,
+          };
+        });
+    } catch (error) {
+      throw this.handleError(error, 'Binance Futures get instruments');
+    }
+  }
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    try {
+      const response = await this.apiClient.get('/fapi/v1/ticker/24hr', {
+        params: { symbol }
+      });
+
+      return {
+        symbol: response.data.symbol,
+        price: parseFloat(response.data.lastPrice),
+        change24h: parseFloat(response.data.priceChangePercent),
+        volume24h: parseFloat(response.data.volume),
+        timestamp: new Date(response.data.closeTime),
+      };
+    } catch (error) {
+      throw this.handleError(error, 'Binance Futures get market data');
+    }
+  }
+
+  async subscribeToMarketData(symbols: string[]): Promise<void> {
+    symbols.forEach(symbol => this.marketSymbols.add(symbol));
+
+    // A fresh connection subscribes every tracked symbol as it opens
+    const ws = this.getStream('market');
+    if (ws) {
+      ws.send(this.marketSubscription('SUBSCRIBE', symbols));
+    } else {
+      await this.openStream('market', this.marketStream());
+    }
 
-    this.wsClient?.send(JSON.stringify(subscribeMessage));
     logger.info(`Subscribed to market data for: ${symbols.join(', ')}`);
   }
 
   async unsubscribeFromMarketData(symbols: string[]): Promise<void> {
-    if (!this.wsClient || this.wsClient.readyState !== WebSocket.OPEN) {
+    symbols.forEach(symbol => this.marketSymbols.delete(symbol));
+
+    const ws = this.getStream('market');
+    if (!ws) {
       return;
     }
 
-    const streams = symbols.map(symbol => `${symbol.toLowerCase()}@ticker`);
-    const unsubscribeMessage = {
-      method: 'UNSUBSCRIBE',
-      params: streams,
+    ws.send(this.marketSubscription('UNSUBSCRIBE', symbols));
+    logger.info(`Unsubscribed from market data for: ${symbols.join(', ')}`);
+  }
+
+  private marketSubscription(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', symbols: string[]): string {
+    return JSON.stringify({
+      method,
+      params: symbols.map(symbol => `${symbol.toLowerCase()}@ticker`),
       id: Date.now(),
-    };
+    });
+  }
 
-    this.wsClient?.send(JSON.stringify(unsubscribeMessage));
-    logger.info(`Unsubscribed from market data for: ${symbols.join(', ')}`);
+  async subscribeToUserData(): Promise<void> {
+    if (this.getStream('private')) {
+      return;
+    }
+
+    await this.openStream('private', this.userDataStream());
+
+    // Listen keys expire after 60 minutes unless kept alive
+    if (this.listenKeyKeepAlive) {
+      clearInterval(this.listenKeyKeepAlive);
+    }
+    this.listenKeyKeepAlive = setInterval(async () => {
+      try {
+        await this.apiClient.put('/fapi/v1/listenKey');
+        logger.debug('Binance Futures listen key kept alive');
+      } catch (error) {
+        logger.error('Binance Futures listen key keep-alive failed:', error);
+      }
+    }, this.listenKeyKeepAliveMs);
+
+    logger.info('Subscribed to Binance Futures user data stream');
   }
 
-  private async connectWebSocket(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.wsClient = new WebSocket(this.wsURL);
+  async unsubscribeFromUserData(): Promise<void> {
+    if (this.listenKeyKeepAlive) {
+      clearInterval(this.listenKeyKeepAlive);
+      this.listenKeyKeepAlive = null;
+    }
 
-      this.wsClient.on('open', () => {
-        logger.info('Binance Futures WebSocket connected');
-        resolve();
-      });
+    this.closeStream('private');
 
-      this.wsClient.on('message', (data: WebSocket.Data) => {
+    if (this.listenKey) {
+      try {
+        await this.apiClient.delete('/fapi/v1/listenKey');
+      } catch (error) {
+        logger.warn('Binance Futures failed to close listen key:', error);
+      }
+      this.listenKey = null;
+    }
+  }
+
+  private userDataStream(): StreamOptions {
+    return {
+      label: 'Binance Futures user data stream',
+      // Creating a listen key while one is active returns the same key, so reconnects keep it
+      url: async () => {
+        try {
+          const response = await this.apiClient.post('/fapi/v1/listenKey');
+          this.listenKey = response.data.listenKey;
+        } catch (error) {
+          throw this.handleError(error, 'Binance Futures create listen key');
+        }
+        return `${this.endpoints.privateWsURL}/${this.listenKey}`;
+      },
+      // Binance answers ping frames with pongs
+      heartbeat: { intervalMs: 30000 },
+      onOpen: async () => {
+        this.emit('userDataConnected');
+      },
+      onMessage: (data: WebSocket.Data) => {
         try {
           const message = JSON.parse(data.toString());
-          this.handleWebSocketMessage(message);
+          this.handleUserDataMessage(message);
         } catch (error) {
-          logger.error('Error parsing WebSocket message:', error);
+          logger.error('Error parsing user data message:', error);
         }
-      });
+      },
+    };
+  }
 
-      this.wsClient.on('error', (error) => {
-        logger.error('Binance Futures WebSocket error:', error);
-        reject(error);
-      });
+  private handleUserDataMessage(message: any): void {
+    if (message.e === 'listenKeyExpired') {
+      logger.warn('Binance Futures listen key expired, resubscribing');
+      this.unsubscribeFromUserData()
+        .then(() => this.subscribeToUserData())
+        .catch((error) => this.emit('error', error));
+      return;
+    }
 
-      this.wsClient.on('close', () => {
-        logger.info('Binance Futures WebSocket disconnected');
-        this.wsClient = null;
-      });
-    });
+    if (message.e !== 'ORDER_TRADE_UPDATE') {
+      return;
+    }
+
+    const order = message.o;
+    const orderUpdate: OrderUpdate = {
+      orderId: order.i.toString(),
+      clientOrderId: order.c,
+      symbol: order.s,
+      side: order.S.toLowerCase(),
+      type: order.o.toLowerCase(),
+      status: this.mapOrderStatus(order.X),
+      quantity: parseFloat(order.q),
+      filledQuantity: parseFloat(order.z),
+      price: parseFloat(order.p),
+      averagePrice: parseFloat(order.ap),
+      timestamp: new Date(order.T),
+    };
+
+    // The tracker finalizes on the order update, so the fill and its fee must land first
+    if (order.x === 'TRADE' && parseFloat(order.l) > 0) {
+      const fill: OrderFill = {
+        orderId: order.i.toString(),
+        tradeId: order.t?.toString(),
+        symbol: order.s,
+        side: order.S.toLowerCase(),
+        quantity: parseFloat(order.l),
+        price: parseFloat(order.L),
+        fee: parseFloat(order.n || '0'),
+        feeAsset: order.N,
+        timestamp: new Date(order.T),
+      };
+
+      this.emit('fill', fill);
+    }
+
+    this.emit('orderUpdate', orderUpdate);
+  }
+
+  private marketStream(): StreamOptions {
+    return {
+      label: 'Binance Futures WebSocket',
+      url: () => this.endpoints.wsURL,
+      heartbeat: { intervalMs: 30000 },
+      onOpen: async (ws: WebSocket) => {
+        if (this.marketSymbols.size > 0) {
+          ws.send(this.marketSubscription('SUBSCRIBE', Array.from(this.marketSymbols)));
+        }
+      },
+      onMessage: (data: WebSocket.Data) => {
+        try {
+          const message = JSON.parse(data.toString());
+          this.handleWebSocketMessage(message);
+        } catch (error) {
+          logger.error('Error parsing WebSocket message:', error);
+        }
+      },
+    };
   }
 
   private handleWebSocketMessage(message: any): void {
@@ -295,11 +492,12 @@ export class BinanceFuturesBroker extends BaseBroker {
     }
   }
 
-  private mapOrderStatus(status: string): 'pending' | 'filled' | 'cancelled' | 'rejected' {
+  private mapOrderStatus(status: string): TradeResult['status'] {
     switch (status) {
       case 'NEW':
-      case 'PARTIALLY_FILLED':
         return 'pending';
+      case 'PARTIALLY_FILLED':
+        return 'partially_filled';
       case 'FILLED':
         return 'filled';
       case 'CANCELED':
@@ -3,9 +3,13 @@ import { DeltaExchangeBroker } from './deltaExchange';
 import { BinanceFuturesBroker } from './binanceFutures';
 import { BybitBroker } from './bybit';
 import { OKXBroker } from './okx';
+import { PaperBroker } from './paper';
+import { BrokerAccount } from '@prisma/client';
 import { logger } from '../../utils/logger';
+import { decryptApiKey } from '../../utils/encryption';
+import { trackBroker, untrackBroker } from '../healthMonitor';
 
-export type SupportedBroker = 'DELTA' | 'BINANCE' | 'BYBIT' | 'OKX';
+export type SupportedBroker = 'DELTA' | 'BINANCE' | 'BYBIT' | 'OKX' | 'PAPER';
 
 export class BrokerFactory {
   private static instances: Map<string, BaseBroker> = new Map();
@@ -15,7 +19,7 @@ export class BrokerFactory {
     credentials: BrokerCredentials,
     instanceId?: string
   ): BaseBroker {
-    const key = instanceId || `${brokerType}_${credentials.apiKey.substring(0, 8)}`;
+    const key = instanceId || `${brokerType}_${credentials.sandbox ? 'TESTNET_' : ''}${credentials.apiKey.substring(0, 8)}`;
     
     // Return existing instance if available
     if (this.instances.has(key)) {
@@ -37,6 +41,9 @@ export class BrokerFactory {
       case 'OKX':
         broker = new OKXBroker(credentials);
         break;
+      case 'PAPER':
+        broker = new PaperBroker(credentials);
+        break;
       default:
         throw new Error(`Unsupported broker type: ${brokerType}`);
     }
@@ -54,6 +61,18 @@ export class BrokerFactory {
       logger.debug(`Market data from ${brokerType}:`, data);
     });
 
+    // Private stream events
+    broker.on('orderUpdate', (update) => {
+      logger.debug(`Order update from ${brokerType}:`, update);
+    });
+
+    broker.on('fill', (fill) => {
+      logger.debug(`Fill from ${brokerType}:`, fill);
+    });
+
+    // Socket drops, recoveries and clock skew feed the health monitor
+    trackBroker(key, broker);
+
     logger.info(`Created ${brokerType} broker instance: ${key}`);
     return broker;
   }
@@ -72,6 +91,25 @@ export class BrokerFactory {
     return broker;
   }
 
+  // Create (or reuse) the broker instance bound to a stored account
+  static createAccountBroker(account: BrokerAccount): BaseBroker {
+    return this.createBroker(
+      account.broker as SupportedBroker,
+      {
+        apiKey: decryptApiKey(account.apiKey),
+        apiSecret: decryptApiKey(account.apiSecret),
+        passphrase: account.passphrase ? decryptApiKey(account.passphrase) : undefined,
+        sandbox: account.environment === 'TESTNET',
+        accountId: account.id,
+      },
+      this.getAccountInstanceId(account)
+    );
+  }
+
+  static getAccountInstanceId(account: Pick<BrokerAccount, 'id' | 'broker'>): string {
+    return `${account.broker}_${account.id}`;
+  }
+
   static getBroker(instanceId: string): BaseBroker | undefined {
     return this.instances.get(instanceId);
   }
@@ -81,6 +119,7 @@ export class BrokerFactory {
     if (broker) {
       await broker.disconnect();
       this.instances.delete(instanceId);
+      untrackBroker(instanceId);
       logger.info(`Disconnected and removed broker instance: ${instanceId}`);
     }
   }
@@ -98,6 +137,7 @@ export class BrokerFactory {
     );
 
     await Promise.all(disconnectPromises);
+    Array.from(this.instances.keys()).forEach(key => untrackBroker(key));
     this.instances.clear();
     logger.info('All broker instances disconnected');
   }
@@ -127,7 +167,7 @@ export class BrokerFactory {
   }
 
   static getSupportedBrokers(): SupportedBroker[] {
-    return ['DELTA', 'BINANCE', 'BYBIT', 'OKX'];
+    return ['DELTA', 'BINANCE', 'BYBIT', 'OKX', 'PAPER'];
   }
 
   static getBrokerInfo(brokerType: SupportedBroker): {
@@ -141,25 +181,31 @@ export class BrokerFactory {
         name: 'Delta Exchange',
         baseUrl: 'https://api.delta.exchange',
         wsUrl: 'wss://socket.delta.exchange',
-        features: ['futures', 'options', 'perpetual'],
+        features: ['futures', 'options', 'perpetual', 'testnet'],
       },
       BINANCE: {
         name: 'Binance Futures',
         baseUrl: 'https://fapi.binance.com',
         wsUrl: 'wss://fstream.binance.com',
-        features: ['futures', 'perpetual', 'margin'],
+        features: ['futures', 'perpetual', 'margin', 'testnet'],
       },
       BYBIT: {
         name: 'Bybit',
         baseUrl: 'https://api.bybit.com',
         wsUrl: 'wss://stream.bybit.com',
-        features: ['futures', 'perpetual', 'spot'],
+        features: ['futures', 'perpetual', 'spot', 'testnet'],
       },
       OKX: {
         name: 'OKX',
         baseUrl: 'https://www.okx.com',
         wsUrl: 'wss://ws.okx.com',
-        features: ['futures', 'perpetual', 'spot', 'options'],
+        features: ['futures', 'perpetual', 'spot', 'options', 'testnet'],
+      },
+      PAPER: {
+        name: 'Paper Trading',
+        baseUrl: 'internal',
+        wsUrl: 'internal',
+        features: ['perpetual', 'simulated'],
       },
     };
 
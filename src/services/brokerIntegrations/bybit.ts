@@ -1,22 +1,24 @@
 import axios, { AxiosInstance } from 'axios';
 import crypto from 'crypto';
 import WebSocket from 'ws';
-import { BaseBroker, BrokerCredentials, TradeOrder, TradeResult, AccountBalance, Position, MarketData } from './baseBroker';
+import { BaseBroker, BrokerCredentials, TradeOrder, TradeResult, AccountBalance, Position, MarketData, OrderUpdate, OrderFill, Instrument, StreamOptions, BrokerError } from './baseBroker';
+import { getBrokerEndpoints } from './endpoints';
+import { RateLimiter } from './rateLimiter';
 import { logger } from '../../utils/logger';
 
 export class BybitBroker extends BaseBroker {
   private apiClient: AxiosInstance;
-  private wsClient: WebSocket | null = null;
-  private readonly baseURL = 'https://api.bybit.com';
-  private readonly wsURL = 'wss://stream.bybit.com/v5/public/linear';
+  private readonly endpoints = getBrokerEndpoints('BYBIT', this.credentials.sandbox);
+  private readonly rateLimiter = new RateLimiter('BYBIT', this.credentials);
 
   constructor(credentials: BrokerCredentials) {
     super(credentials);
     
     this.apiClient = axios.create({
-      baseURL: this.baseURL,
+      baseURL: this.endpoints.restURL,
       timeout: 10000,
       headers: {
+        ...this.endpoints.headers,
         'Content-Type': 'application/json',
       },
     });
@@ -25,9 +27,12 @@ export class BybitBroker extends BaseBroker {
   }
 
   private setupInterceptors(): void {
-    this.apiClient.interceptors.request.use((config) => {
-      const timestamp = Date.now().toString();
-      const recvWindow = '5000';
+    this.apiClient.interceptors.request.use(async (config) => {
+      // Wait for the venue's rate limit before signing, so the timestamp is fresh when sent
+      await this.rateLimiter.acquire(config);
+
+      const timestamp = (await this.serverNow()).toString();
+      const recvWindow = this.recvWindowMs.toString();
       
       // Prepare parameters
       let params = '';
@@ -55,17 +60,32 @@ export class BybitBroker extends BaseBroker {
     });
 
     this.apiClient.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        this.rateLimiter.observe(response);
+        return response;
+      },
       (error) => {
+        if (error.response?.status === 429) {
+          this.rateLimiter.backOff(error.response);
+        }
         throw this.handleError(error, 'Bybit API');
       }
     );
   }
 
+  protected async fetchServerTime(): Promise<number | null> {
+    const response = await axios.get(`${this.endpoints.restURL}/v5/market/time`, {
+      timeout: 10000,
+      headers: this.endpoints.headers,
+    });
+    // Nanoseconds overflow a double, so drop them before parsing
+    return parseInt(response.data.result.timeNano.slice(0, -6));
+  }
+
   async connect(): Promise<void> {
     try {
       await this.validateCredentials();
-      await this.connectWebSocket();
+      await this.openStream('market', this.marketStream());
       this.isConnected = true;
       logger.info('Connected to Bybit');
     } catch (error) {
@@ -74,20 +94,14 @@ export class BybitBroker extends BaseBroker {
   }
 
   async disconnect(): Promise<void> {
-    if (this.wsClient) {
-      this.wsClient.close();
-      this.wsClient = null;
-    }
+    await this.unsubscribeFromUserData();
+    this.closeStream('market');
     this.isConnected = false;
     logger.info('Disconnected from Bybit');
   }
 
   async validateCredentials(): Promise<boolean> {
     try {
-      if (!this.checkRateLimit('validate', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/v5/account/info');
       return response.data.retCode === 0;
     } catch (error) {
@@ -98,10 +112,6 @@ export class BybitBroker extends BaseBroker {
 
   async getAccountBalance(): Promise<AccountBalance[]> {
     try {
-      if (!this.checkRateLimit('balance', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/v5/account/wallet-balance', {
         params: { accountType: 'UNIFIED' }
       });
@@ -132,10 +142,6 @@ export class BybitBroker extends BaseBroker {
 
   async getPositions(): Promise<Position[]> {
     try {
-      if (!this.checkRateLimit('positions', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/v5/position/list', {
         params: { category: 'linear' }
       });
@@ -148,7 +154,8 @@ export class BybitBroker extends BaseBroker {
         .filter((pos: any) => parseFloat(pos.size) !== 0)
         .map((position: any) => ({
           symbol: position.symbol,
-          side: position.side.toLowerCase(),
+          // Bybit reports position sides as Buy and Sell
+          side: position.side === 'Buy' ? 'long' : 'short',
           size: parseFloat(position.size),
           entryPrice: parseFloat(position.avgPrice),
           markPrice: parseFloat(position.markPrice),
@@ -162,10 +169,6 @@ export class BybitBroker extends BaseBroker {
 
   async placeOrder(order: TradeOrder): Promise<TradeResult> {
     try {
-      if (!this.checkRateLimit('order', 20, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const orderData: any = {
         category: 'linear',
         symbol: order.symbol,
@@ -183,6 +186,14 @@ export class BybitBroker extends BaseBroker {
         orderData.stopLoss = order.stopPrice.toString();
       }
 
+      if (order.reduceOnly) {
+        orderData.reduceOnly = true;
+      }
+
+      if (order.clientOrderId) {
+        orderData.orderLinkId = order.clientOrderId;
+      }
+
       const response = await this.apiClient.post('/v5/order/create', orderData);
       
       if (response.data.retCode !== 0) {
@@ -207,10 +218,6 @@ export class BybitBroker extends BaseBroker {
 
   async cancelOrder(orderId: string, symbol: string): Promise<boolean> {
     try {
-      if (!this.checkRateLimit('cancel', 20, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.post('/v5/order/cancel', {
         category: 'linear',
         symbol: symbol,
@@ -225,10 +232,6 @@ export class BybitBroker extends BaseBroker {
 
   async getOrderStatus(orderId: string, symbol: string): Promise<TradeResult> {
     try {
-      if (!this.checkRateLimit('order_status', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/v5/order/realtime', {
         params: {
           category: 'linear',
@@ -251,68 +254,236 @@ export class BybitBroker extends BaseBroker {
         status: this.mapOrderStatus(order.orderStatus),
         timestamp: new Date(parseInt(order.updatedTime)),
         fees: parseFloat(order.cumExecFee || '0'),
+        filledQuantity: parseFloat(order.cumExecQty || '0'),
+        averagePrice: parseFloat(order.avgPrice || '0'),
       };
     } catch (error) {
       throw this.handleError(error, 'Bybit get order status');
     }
   }
 
-  async subscribeToMarketData(symbols: string[]): Promise<void> {
-    if (!this.wsClient || this.wsClient.readyState !== WebSocket.OPEN) {
-      await this.connectWebSocket();
+  async getOpenOrders(): Promise<TradeResult[]> {
+    try {
+      const response = await this.apiClient.get('/v5/order/realtime', {
+        params: {
+          category: 'linear',
+          settleCoin: 'USDT',
+          openOnly: 0,
+          limit: 50,
+        },
+      });
+
+      if (response.data.retCode !== 0) {
+        throw new Error('Failed to fetch open orders');
+      }
+
+      return response.data.result.list.map((order: any) => ({
+        orderId: order.orderId,
+        symbol: order.symbol,
+        side: order.side.toLowerCase(),
+        quantity: parseFloat(order.qty),
+        price: parseFloat(order.price || '0'),
+        status: this.mapOrderStatus(order.orderStatus),
+        timestamp: new Date(parseInt(order.updatedTime)),
+      }));
+    } catch (error) {
+      throw this.handleError(error, 'Bybit get open orders');
     }
+  }
 
-    const subscribeMessage = {
-      op: 'subscribe',
-      args: symbols.map(symbol => `tickers.${symbol}`),
-    };
+  async getInstruments(): Promise<Instrument[]> {
+    try {
+      const response = await this.apiClient.get('/v5/market/instruments-info', {
+        params: { category: 'linear', limit: 1000 }
+      });
+
+      if (response.data.retCode !== 0) {
+        throw new Error('Failed to fetch instruments');
+      }
+
+      return response.data.result.list
+        .filter((instrument: any) => instrument.contractType === 'LinearPerpetual' && instrument.status === 'Trading')
+        .map((instrument: any) => ({
+          symbol: instrument.symbol,
+          baseAsset: instrument.baseCoin,
+          quoteAsset: instrument.quoteCoin,
+          settleAsset: instrument.settleCoin,
+          tickSize: parseFloat(instrument.priceFilter.tickSize),
+          lotSize: parseFloat(instrument.lotSizeFilter.qtyStep),
+          minQuantity: parseFloat(instrument.lotSizeFilter.minOrderQty),
+          minNotional: parseFloat(instrument.lotSizeFilter.minNotionalValue || '0'),
+          contractValue: 1,
+        }));
+    } catch (error) {
+      throw this.handleError(error, 'Bybit get instruments');
+    }
+  }
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    try {
+      const response = await this.apiClient.get('/v5/market/tickers', {
+        params: { category: 'linear', symbol }
+      });
+
+      if (response.data.retCode !== 0 || !response.data.result.list?.length) {
+        throw new Error(response.data.retMsg || 'Failed to fetch ticker');
+      }
+
+      const ticker = response.data.result.list[0];
+      return {
+        symbol: ticker.symbol,
+        price: parseFloat(ticker.lastPrice),
+        change24h: parseFloat(ticker.price24hPcnt) * 100,
+        volume24h: parseFloat(ticker.volume24h),
+        timestamp: new Date(parseInt(response.data.time)),
+      };
+    } catch (error) {
+      throw this.handleError(error, 'Bybit get market data');
+    }
+  }
+
+  async subscribeToMarketData(symbols: string[]): Promise<void> {
+    symbols.forEach(symbol => this.marketSymbols.add(symbol));
+
+    // A fresh connection subscribes every tracked symbol as it opens
+    const ws = this.getStream('market');
+    if (ws) {
+      ws.send(this.marketSubscription('subscribe', symbols));
+    } else {
+      await this.openStream('market', this.marketStream());
+    }
 
-    this.wsClient?.send(JSON.stringify(subscribeMessage));
     logger.info(`Subscribed to market data for: ${symbols.join(', ')}`);
   }
 
   async unsubscribeFromMarketData(symbols: string[]): Promise<void> {
-    if (!this.wsClient || this.wsClient.readyState !== WebSocket.OPEN) {
+    symbols.forEach(symbol => this.marketSymbols.delete(symbol));
+
+    const ws = this.getStream('market');
+    if (!ws) {
       return;
     }
 
-    const unsubscribeMessage = {
-      op: 'unsubscribe',
+    ws.send(this.marketSubscription('unsubscribe', symbols));
+    logger.info(`Unsubscribed from market data for: ${symbols.join(', ')}`);
+  }
+
+  private marketSubscription(op: 'subscribe' | 'unsubscribe', symbols: string[]): string {
+    return JSON.stringify({
+      op,
       args: symbols.map(symbol => `tickers.${symbol}`),
-    };
+    });
+  }
 
-    this.wsClient?.send(JSON.stringify(unsubscribeMessage));
-    logger.info(`Unsubscribed from market data for: ${symbols.join(', ')}`);
+  async subscribeToUserData(): Promise<void> {
+    await this.openStream('private', this.privateStream());
+    logger.info('Subscribed to Bybit private order and execution streams');
   }
 
-  private async connectWebSocket(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.wsClient = new WebSocket(this.wsURL);
+  async unsubscribeFromUserData(): Promise<void> {
+    this.closeStream('private');
+  }
 
-      this.wsClient.on('open', () => {
-        logger.info('Bybit WebSocket connected');
-        resolve();
-      });
+  private privateStream(): StreamOptions {
+    return {
+      label: 'Bybit private WebSocket',
+      url: () => this.endpoints.privateWsURL,
+      // Bybit drops idle connections after 10 minutes; recommended ping is every 20s
+      heartbeat: { intervalMs: 20000, message: JSON.stringify({ op: 'ping' }) },
+      onOpen: async (ws: WebSocket) => {
+        const expires = (await this.serverNow()) + 10000;
+        const signature = crypto
+          .createHmac('sha256', this.credentials.apiSecret)
+          .update(`GET/realtime${expires}`)
+          .digest('hex');
+
+        const reply = this.waitForMessage(ws, message => message.op === 'auth');
+        ws.send(JSON.stringify({
+          op: 'auth',
+          args: [this.credentials.apiKey, expires, signature],
+        }));
 
-      this.wsClient.on('message', (data: WebSocket.Data) => {
+        const auth = await reply;
+        if (!auth.success) {
+          throw new BrokerError(auth.ret_msg || 'Bybit private WebSocket authentication failed');
+        }
+        logger.info('Bybit private WebSocket authenticated');
+
+        ws.send(JSON.stringify({
+          op: 'subscribe',
+          args: ['order', 'execution'],
+        }));
+        this.emit('userDataConnected');
+      },
+      onMessage: (data: WebSocket.Data) => {
         try {
           const message = JSON.parse(data.toString());
-          this.handleWebSocketMessage(message);
+          this.handlePrivateMessage(message);
         } catch (error) {
-          logger.error('Error parsing WebSocket message:', error);
+          logger.error('Error parsing private WebSocket message:', error);
         }
-      });
+      },
+    };
+  }
 
-      this.wsClient.on('error', (error) => {
-        logger.error('Bybit WebSocket error:', error);
-        reject(error);
+  private handlePrivateMessage(message: any): void {
+    if (message.topic === 'order' && Array.isArray(message.data)) {
+      message.data.forEach((order: any) => {
+        const orderUpdate: OrderUpdate = {
+          orderId: order.orderId,
+          clientOrderId: order.orderLinkId || undefined,
+          symbol: order.symbol,
+          side: order.side.toLowerCase(),
+          type: order.orderType.toLowerCase(),
+          status: this.mapOrderStatus(order.orderStatus),
+          quantity: parseFloat(order.qty),
+          filledQuantity: parseFloat(order.cumExecQty || '0'),
+          price: parseFloat(order.price || '0'),
+          averagePrice: parseFloat(order.avgPrice || '0'),
+          timestamp: new Date(parseInt(order.updatedTime)),
+        };
+
+        this.emit('orderUpdate', orderUpdate);
       });
+    } else if (message.topic === 'execution' && Array.isArray(message.data)) {
+      message.data
+        .filter((execution: any) => execution.execType === 'Trade')
+        .forEach((execution: any) => {
+          const fill: OrderFill = {
+            orderId: execution.orderId,
+            tradeId: execution.execId,
+            symbol: execution.symbol,
+            side: execution.side.toLowerCase(),
+            quantity: parseFloat(execution.execQty),
+            price: parseFloat(execution.execPrice),
+            fee: parseFloat(execution.execFee || '0'),
+            timestamp: new Date(parseInt(execution.execTime)),
+          };
+
+          this.emit('fill', fill);
+        });
+    }
+  }
 
-      this.wsClient.on('close', () => {
-        logger.info('Bybit WebSocket disconnected');
-        this.wsClient = null;
-      });
-    });
+  private marketStream(): StreamOptions {
+    return {
+      label: 'Bybit WebSocket',
+      url: () => this.endpoints.wsURL,
+      heartbeat: { intervalMs: 20000, message: JSON.stringify({ op: 'ping' }) },
+      onOpen: async (ws: WebSocket) => {
+        if (this.marketSymbols.size > 0) {
+          ws.send(this.marketSubscription('subscribe', Array.from(this.marketSymbols)));
+        }
+      },
+      onMessage: (data: WebSocket.Data) => {
+        try {
+          const message = JSON.parse(data.toString());
+          this.handleWebSocketMessage(message);
+        } catch (error) {
+          logger.error('Error parsing WebSocket message:', error);
+        }
+      },
+    };
   }
 
   private handleWebSocketMessage(message: any): void {
@@ -329,11 +500,12 @@ export class BybitBroker extends BaseBroker {
     }
   }
 
-  private mapOrderStatus(status: string): 'pending' | 'filled' | 'cancelled' | 'rejected' {
+  private mapOrderStatus(status: string): TradeResult['status'] {
     switch (status) {
       case 'New':
-      case 'PartiallyFilled':
         return 'pending';
+      case 'PartiallyFilled':
+        return 'partially_filled';
       case 'Filled':
         return 'filled';
       case 'Cancelled':
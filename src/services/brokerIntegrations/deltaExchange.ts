@@ -1,22 +1,24 @@
 import axios, { AxiosInstance } from 'axios';
 import crypto from 'crypto';
 import WebSocket from 'ws';
-import { BaseBroker, BrokerCredentials, TradeOrder, TradeResult, AccountBalance, Position, MarketData } from './baseBroker';
+import { BaseBroker, BrokerCredentials, TradeOrder, TradeResult, AccountBalance, Position, MarketData, OrderUpdate, OrderFill, Instrument, StreamOptions, BrokerError } from './baseBroker';
+import { getBrokerEndpoints } from './endpoints';
+import { RateLimiter } from './rateLimiter';
 import { logger } from '../../utils/logger';
 
 export class DeltaExchangeBroker extends BaseBroker {
   private apiClient: AxiosInstance;
-  private wsClient: WebSocket | null = null;
-  private readonly baseURL = 'https://api.delta.exchange';
-  private readonly wsURL = 'wss://socket.delta.exchange';
+  private readonly endpoints = getBrokerEndpoints('DELTA', this.credentials.sandbox);
+  private readonly rateLimiter = new RateLimiter('DELTA', this.credentials);
 
   constructor(credentials: BrokerCredentials) {
     super(credentials);
     
     this.apiClient = axios.create({
-      baseURL: this.baseURL,
+      baseURL: this.endpoints.restURL,
       timeout: 10000,
       headers: {
+        ...this.endpoints.headers,
         'Content-Type': 'application/json',
         'User-Agent': 'CopyTrader-Pro/1.0',
       },
@@ -26,9 +28,20 @@ export class DeltaExchangeBroker extends BaseBroker {
   }
 
   private setupInterceptors(): void {
-    this.apiClient.interceptors.request.use((config) => {
-      const timestamp = Date.now().toString();
+    this.apiClient.interceptors.request.use(async (config) => {
+      // Wait for the venue's rate limit before signing, so the timestamp is fresh when sent
+      await this.rateLimiter.acquire(config);
+
+      // Delta expects epoch seconds and rejects signatures older than 5 seconds
+      const timestamp = Math.floor((await this.serverNow()) / 1000).toString();
       const method = config.method?.toUpperCase() || 'GET';
+
+      // The query string is part of the signature, so send the URL exactly as signed
+      if (config.params && Object.keys(config.params).length > 0) {
+        config.url = `${config.url}?${new URLSearchParams(config.params).toString()}`;
+        config.params = undefined;
+      }
+
       const path = config.url || '';
       const body = config.data ? JSON.stringify(config.data) : '';
       
@@ -48,17 +61,51 @@ export class DeltaExchangeBroker extends BaseBroker {
     });
 
     this.apiClient.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        this.rateLimiter.observe(response);
+        this.observeServerDate(response.headers.date);
+        return response;
+      },
       (error) => {
+        // An expired signature still tells us the venue's time for the retry
+        this.observeServerDate(error.response?.headers.date);
+        if (error.response?.status === 429) {
+          this.rateLimiter.backOff(error.response);
+        }
         throw this.handleError(error, 'Delta Exchange API');
       }
     );
   }
 
+  // Delta has no time endpoint, but every response carries an HTTP Date header (second resolution)
+  protected async fetchServerTime(): Promise<number | null> {
+    const response = await axios.head(`${this.endpoints.restURL}/v2/products`, {
+      timeout: 10000,
+      headers: this.endpoints.headers,
+      validateStatus: () => true,
+    });
+    const serverTime = Date.parse(response.headers.date);
+    // The header truncates to the second, so assume the middle of it
+    return isNaN(serverTime) ? null : serverTime + 500;
+  }
+
+  // Between syncs, pick up a clock that has clearly moved without reacting to the header's rounding
+  private observeServerDate(dateHeader?: string): void {
+    const serverTime = dateHeader ? Date.parse(dateHeader) : NaN;
+    if (isNaN(serverTime)) {
+      return;
+    }
+
+    const receivedAt = Date.now();
+    if (Math.abs(serverTime + 500 - receivedAt - this.getClockSkew().offsetMs) > 1000) {
+      this.recordServerTime(serverTime + 500, receivedAt, receivedAt);
+    }
+  }
+
   async connect(): Promise<void> {
     try {
       await this.validateCredentials();
-      await this.connectWebSocket();
+      await this.openStream('market', this.marketStream());
       this.isConnected = true;
       logger.info('Connected to Delta Exchange');
     } catch (error) {
@@ -67,20 +114,14 @@ export class DeltaExchangeBroker extends BaseBroker {
   }
 
   async disconnect(): Promise<void> {
-    if (this.wsClient) {
-      this.wsClient.close();
-      this.wsClient = null;
-    }
+    await this.unsubscribeFromUserData();
+    this.closeStream('market');
     this.isConnected = false;
     logger.info('Disconnected from Delta Exchange');
   }
 
   async validateCredentials(): Promise<boolean> {
     try {
-      if (!this.checkRateLimit('validate', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/v2/profile');
       return response.status === 200 && response.data.success;
     } catch (error) {
@@ -91,10 +132,6 @@ export class DeltaExchangeBroker extends BaseBroker {
 
   async getAccountBalance(): Promise<AccountBalance[]> {
     try {
-      if (!this.checkRateLimit('balance', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/v2/wallet/balances');
       
       if (!response.data.success) {
@@ -114,10 +151,6 @@ export class DeltaExchangeBroker extends BaseBroker {
 
   async getPositions(): Promise<Position[]> {
     try {
-      if (!this.checkRateLimit('positions', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/v2/positions');
       
       if (!response.data.success) {
@@ -142,10 +175,6 @@ export class DeltaExchangeBroker extends BaseBroker {
 
   async placeOrder(order: TradeOrder): Promise<TradeResult> {
     try {
-      if (!this.checkRateLimit('order', 20, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const orderData = {
         product_id: await this.getProductId(order.symbol),
         side: order.side,
@@ -153,7 +182,9 @@ export class DeltaExchangeBroker extends BaseBroker {
         size: order.quantity.toString(),
         ...(order.price && { limit_price: order.price.toString() }),
         ...(order.stopPrice && { stop_price: order.stopPrice.toString() }),
-        time_in_force: order.timeInForce || 'GTC',
+        ...(order.reduceOnly && { reduce_only: 'true' }),
+        ...(order.clientOrderId && { client_order_id: order.clientOrderId }),
+        time_in_force: (order.timeInForce || 'GTC').toLowerCase(),
       };
 
       const response = await this.apiClient.post('/v2/orders', orderData);
@@ -163,15 +194,18 @@ export class DeltaExchangeBroker extends BaseBroker {
       }
 
       const result = response.data.result;
+      const filledQuantity = parseFloat(result.size) - parseFloat(result.unfilled_size || '0');
       return {
         orderId: result.id.toString(),
         symbol: order.symbol,
         side: order.side,
         quantity: parseFloat(result.size),
         price: parseFloat(result.limit_price || result.average_fill_price || '0'),
-        status: this.mapOrderStatus(result.state),
+        status: this.mapOrderStatus(result.state, filledQuantity),
         timestamp: new Date(result.created_at),
-        fees: parseFloat(result.commission || '0'),
+        fees: parseFloat(result.paid_commission || result.commission || '0'),
+        filledQuantity,
+        averagePrice: parseFloat(result.average_fill_price || '0'),
       };
     } catch (error) {
       throw this.handleError(error, 'Delta Exchange place order');
@@ -180,10 +214,6 @@ export class DeltaExchangeBroker extends BaseBroker {
 
   async cancelOrder(orderId: string, symbol: string): Promise<boolean> {
     try {
-      if (!this.checkRateLimit('cancel', 20, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const productId = await this.getProductId(symbol);
       const response = await this.apiClient.delete(`/v2/orders/${orderId}`, {
         data: { product_id: productId }
@@ -197,10 +227,6 @@ export class DeltaExchangeBroker extends BaseBroker {
 
   async getOrderStatus(orderId: string, symbol: string): Promise<TradeResult> {
     try {
-      if (!this.checkRateLimit('order_status', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get(`/v2/orders/${orderId}`);
       
       if (!response.data.success) {
@@ -208,99 +234,261 @@ export class DeltaExchangeBroker extends BaseBroker {
       }
 
       const order = response.data.result;
+      const filledQuantity = parseFloat(order.size) - parseFloat(order.unfilled_size || '0');
       return {
         orderId: order.id.toString(),
         symbol: symbol,
         side: order.side,
         quantity: parseFloat(order.size),
         price: parseFloat(order.limit_price || order.average_fill_price || '0'),
-        status: this.mapOrderStatus(order.state),
+        status: this.mapOrderStatus(order.state, filledQuantity),
         timestamp: new Date(order.created_at),
-        fees: parseFloat(order.commission || '0'),
+        fees: parseFloat(order.paid_commission || order.commission || '0'),
+        filledQuantity,
+        averagePrice: parseFloat(order.average_fill_price || '0'),
       };
     } catch (error) {
       throw this.handleError(error, 'Delta Exchange get order status');
     }
   }
 
-  async subscribeToMarketData(symbols: string[]): Promise<void> {
-    if (!this.wsClient || this.wsClient.readyState !== WebSocket.OPEN) {
-      await this.connectWebSocket();
+  async getOpenOrders(): Promise<TradeResult[]> {
+    try {
+      const response = await this.apiClient.get('/v2/orders', {
+        params: { states: 'open,pending' },
+      });
+
+      if (!response.data.success) {
+        throw new Error('Failed to fetch open orders');
+      }
+
+      return response.data.result.map((order: any) => ({
+        orderId: order.id.toString(),
+        symbol: order.product_symbol,
+        side: order.side,
+        quantity: parseFloat(order.size),
+        price: parseFloat(order.limit_price || '0'),
+        status: this.mapOrderStatus(order.state),
+        timestamp: this.parseTimestamp(order.updated_at || order.created_at),
+      }));
+    } catch (error) {
+      throw this.handleError(error, 'Delta Exchange get open orders');
     }
+  }
 
-    for (const symbol of symbols) {
-      const productId = await this.getProductId(symbol);
-      const subscribeMessage = {
-        type: 'subscribe',
-        payload: {
-          channels: [
-            {
-              name: 'ticker',
-              symbols: [productId.toString()],
-            },
-          ],
-        },
+  async getInstruments(): Promise<Instrument[]> {
+    try {
+      const response = await this.apiClient.get('/v2/products');
+
+      if (!response.data.success) {
+        throw new Error('Failed to fetch instruments');
+      }
+
+      return response.data.result
+        .filter((product: any) => product.contract_type === 'perpetual_futures' && product.state === 'live')
+        .map((product: any) => ({
+          symbol: product.symbol,
+          baseAsset: product.underlying_asset.symbol,
+          quoteAsset: product.quoting_asset.symbol,
+          settleAsset: product.settling_asset?.symbol,
+          tickSize: parseFloat(product.tick_size),
+          // Orders are whole contracts of contract_value underlying each
+          lotSize: 1,
+          minQuantity: 1,
+          minNotional: 0,
+          contractValue: parseFloat(product.contract_value),
+        }));
+    } catch (error) {
+      throw this.handleError(error, 'Delta Exchange get instruments');
+    }
+  }
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    try {
+      const response = await this.apiClient.get(`/v2/tickers/${symbol}`);
+
+      if (!response.data.success) {
+        throw new Error(response.data.error?.message || 'Failed to fetch ticker');
+      }
+
+      const ticker = response.data.result;
+      const close = parseFloat(ticker.close);
+      const open = parseFloat(ticker.open);
+      return {
+        symbol: ticker.symbol,
+        price: close,
+        change24h: open > 0 ? ((close - open) / open) * 100 : 0,
+        volume24h: parseFloat(ticker.volume),
+        timestamp: this.parseTimestamp(ticker.timestamp),
       };
+    } catch (error) {
+      throw this.handleError(error, 'Delta Exchange get market data');
+    }
+  }
 
-      this.wsClient?.send(JSON.stringify(subscribeMessage));
+  async subscribeToMarketData(symbols: string[]): Promise<void> {
+    symbols.forEach(symbol => this.marketSymbols.add(symbol));
+
+    // A fresh connection subscribes every tracked symbol as it opens
+    const ws = this.getStream('market');
+    if (ws) {
+      ws.send(await this.marketSubscription('subscribe', symbols));
+    } else {
+      await this.openStream('market', this.marketStream());
     }
 
     logger.info(`Subscribed to market data for: ${symbols.join(', ')}`);
   }
 
   async unsubscribeFromMarketData(symbols: string[]): Promise<void> {
-    if (!this.wsClient || this.wsClient.readyState !== WebSocket.OPEN) {
+    symbols.forEach(symbol => this.marketSymbols.delete(symbol));
+
+    const ws = this.getStream('market');
+    if (!ws) {
       return;
     }
 
-    for (const symbol of symbols) {
-      const productId = await this.getProductId(symbol);
-      const unsubscribeMessage = {
-        type: 'unsubscribe',
-        payload: {
-          channels: [
-            {
-              name: 'ticker',
-              symbols: [productId.toString()],
-            },
-          ],
-        },
-      };
+    ws.send(await this.marketSubscription('unsubscribe', symbols));
+    logger.info(`Unsubscribed from market data for: ${symbols.join(', ')}`);
+  }
 
-      this.wsClient?.send(JSON.stringify(unsubscribeMessage));
-    }
+  private async marketSubscription(type: 'subscribe' | 'unsubscribe', symbols: string[]): Promise<string> {
+    const productIds = await Promise.all(symbols.map(symbol => this.getProductId(symbol)));
+
+    return JSON.stringify({
+      type,
+      payload: {
+        channels: [
+          {
+            name: 'ticker',
+            symbols: productIds.map(productId => productId.toString()),
+          },
+        ],
+      },
+    });
+  }
 
-    logger.info(`Unsubscribed from market data for: ${symbols.join(', ')}`);
+  async subscribeToUserData(): Promise<void> {
+    await this.openStream('private', this.privateStream());
+    logger.info('Subscribed to Delta Exchange private orders and user trades channels');
   }
 
-  private async connectWebSocket(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.wsClient = new WebSocket(this.wsURL);
+  async unsubscribeFromUserData(): Promise<void> {
+    this.closeStream('private');
+  }
 
-      this.wsClient.on('open', () => {
-        logger.info('Delta Exchange WebSocket connected');
-        resolve();
-      });
+  private privateStream(): StreamOptions {
+    return {
+      label: 'Delta Exchange private WebSocket',
+      url: () => this.endpoints.privateWsURL,
+      heartbeat: { intervalMs: 30000, message: JSON.stringify({ type: 'ping' }) },
+      onOpen: async (ws: WebSocket) => {
+        const timestamp = Math.floor((await this.serverNow()) / 1000).toString();
+        const signature = crypto
+          .createHmac('sha256', this.credentials.apiSecret)
+          .update('GET' + timestamp + '/live')
+          .digest('hex');
+
+        const reply = this.waitForMessage(ws, message => message.type === 'success' || message.type === 'error');
+        ws.send(JSON.stringify({
+          type: 'auth',
+          payload: {
+            'api-key': this.credentials.apiKey,
+            signature,
+            timestamp,
+          },
+        }));
 
-      this.wsClient.on('message', (data: WebSocket.Data) => {
+        const auth = await reply;
+        if (auth.type !== 'success' || auth.message !== 'Authenticated') {
+          throw new BrokerError(auth.message || 'Delta Exchange private WebSocket authentication failed');
+        }
+        logger.info('Delta Exchange private WebSocket authenticated');
+
+        ws.send(JSON.stringify({
+          type: 'subscribe',
+          payload: {
+            channels: [
+              { name: 'orders', symbols: ['all'] },
+              { name: 'user_trades', symbols: ['all'] },
+            ],
+          },
+        }));
+        this.emit('userDataConnected');
+      },
+      onMessage: (data: WebSocket.Data) => {
         try {
           const message = JSON.parse(data.toString());
-          this.handleWebSocketMessage(message);
+          this.handlePrivateMessage(message);
         } catch (error) {
-          logger.error('Error parsing WebSocket message:', error);
+          logger.error('Error parsing private WebSocket message:', error);
         }
-      });
+      },
+    };
+  }
 
-      this.wsClient.on('error', (error) => {
-        logger.error('Delta Exchange WebSocket error:', error);
-        reject(error);
-      });
+  private handlePrivateMessage(message: any): void {
+    if (message.type === 'orders') {
+      const size = parseFloat(message.size);
+      const filledQuantity = size - parseFloat(message.unfilled_size || '0');
+      const orderUpdate: OrderUpdate = {
+        orderId: message.id.toString(),
+        clientOrderId: message.client_order_id || undefined,
+        symbol: message.symbol,
+        side: message.side,
+        type: message.order_type === 'market_order' ? 'market' : 'limit',
+        status: this.mapOrderStatus(message.state, filledQuantity),
+        quantity: size,
+        filledQuantity,
+        price: parseFloat(message.limit_price || '0'),
+        averagePrice: parseFloat(message.average_fill_price || '0'),
+        timestamp: this.parseTimestamp(message.updated_at || message.created_at),
+      };
 
-      this.wsClient.on('close', () => {
-        logger.info('Delta Exchange WebSocket disconnected');
-        this.wsClient = null;
-      });
-    });
+      this.emit('orderUpdate', orderUpdate);
+    } else if (message.type === 'user_trades') {
+      const fill: OrderFill = {
+        orderId: message.order_id.toString(),
+        tradeId: message.fill_id?.toString(),
+        symbol: message.symbol,
+        side: message.side,
+        quantity: parseFloat(message.size),
+        price: parseFloat(message.price),
+        fee: parseFloat(message.commission || '0'),
+        timestamp: this.parseTimestamp(message.created_at),
+      };
+
+      this.emit('fill', fill);
+    }
+  }
+
+  // Delta sends microsecond epochs on sockets and ISO strings over REST
+  private parseTimestamp(value: any): Date {
+    if (typeof value === 'number') {
+      return new Date(Math.floor(value / 1000));
+    }
+    return value ? new Date(value) : new Date();
+  }
+
+  private marketStream(): StreamOptions {
+    return {
+      label: 'Delta Exchange WebSocket',
+      url: () => this.endpoints.wsURL,
+      heartbeat: { intervalMs: 30000, message: JSON.stringify({ type: 'ping' }) },
+      onOpen: async (ws: WebSocket) => {
+        if (this.marketSymbols.size > 0) {
+          ws.send(await this.marketSubscription('subscribe', Array.from(this.marketSymbols)));
+        }
+      },
+      onMessage: (data: WebSocket.Data) => {
+        try {
+          const message = JSON.parse(data.toString());
+          this.handleWebSocketMessage(message);
+        } catch (error) {
+          logger.error('Error parsing WebSocket message:', error);
+        }
+      },
+    };
   }
 
   private handleWebSocketMessage(message: any): void {
@@ -335,11 +523,12 @@ export class DeltaExchangeBroker extends BaseBroker {
     }
   }
 
-  private mapOrderStatus(state: string): 'pending' | 'filled' | 'cancelled' | 'rejected' {
+  // Delta keeps partially filled orders 'open', so the filled size tells them apart
+  private mapOrderStatus(state: string, filledQuantity: number = 0): TradeResult['status'] {
     switch (state.toLowerCase()) {
       case 'open':
       case 'pending':
-        return 'pending';
+        return filledQuantity > 0 ? 'partially_filled' : 'pending';
       case 'filled':
       case 'closed':
         return 'filled';
@@ -0,0 +1,71 @@
+export type ExchangeBroker = 'DELTA' | 'BINANCE' | 'BYBIT' | 'OKX';
+
+export interface BrokerEndpoints {
+  restURL: string;
+  wsURL: string;
+  privateWsURL: string;
+  headers?: Record<string, string>;  // Sent with every REST request
+}
+
+const PRODUCTION_ENDPOINTS: Record<ExchangeBroker, BrokerEndpoints> = {
+  BINANCE: {
+    restURL: 'https://fapi.binance.com',
+    wsURL: 'wss://fstream.binance.com/ws',
+    // User data streams are opened at `${privateWsURL}/${listenKey}`
+    privateWsURL: 'wss://fstream.binance.com/ws',
+  },
+  BYBIT: {
+    restURL: 'https://api.bybit.com',
+    wsURL: 'wss://stream.bybit.com/v5/public/linear',
+    privateWsURL: 'wss://stream.bybit.com/v5/private',
+  },
+  OKX: {
+    restURL: 'https://www.okx.com',
+    wsURL: 'wss://ws.okx.com:8443/ws/v5/public',
+    privateWsURL: 'wss://ws.okx.com:8443/ws/v5/private',
+  },
+  DELTA: {
+    restURL: 'https://api.delta.exchange',
+    // Delta serves public and authenticated channels on one socket
+    wsURL: 'wss://socket.delta.exchange',
+    privateWsURL: 'wss://socket.delta.exchange',
+  },
+};
+
+const TESTNET_ENDPOINTS: Record<ExchangeBroker, BrokerEndpoints> = {
+  BINANCE: {
+    restURL: 'https://testnet.binancefuture.com',
+    wsURL: 'wss://stream.binancefuture.com/ws',
+    privateWsURL: 'wss://stream.binancefuture.com/ws',
+  },
+  BYBIT: {
+    restURL: 'https://api-testnet.bybit.com',
+    wsURL: 'wss://stream-testnet.bybit.com/v5/public/linear',
+    privateWsURL: 'wss://stream-testnet.bybit.com/v5/private',
+  },
+  OKX: {
+    // Demo trading shares the production REST host and is selected per request
+    restURL: 'https://www.okx.com',
+    wsURL: 'wss://wspap.okx.com:8443/ws/v5/public',
+    privateWsURL: 'wss://wspap.okx.com:8443/ws/v5/private',
+    headers: { 'x-simulated-trading': '1' },
+  },
+  DELTA: {
+    restURL: 'https://testnet-api.delta.exchange',
+    wsURL: 'wss://testnet-socket.delta.exchange',
+    privateWsURL: 'wss://testnet-socket.delta.exchange',
+  },
+};
+
+// Overrides such as BINANCE_REST_URL, or BINANCE_TESTNET_REST_URL for sandbox accounts, point an adapter at the mock exchange or a proxy
+export const getBrokerEndpoints = (broker: ExchangeBroker, sandbox: boolean = false): BrokerEndpoints => {
+  const defaults = sandbox ? TESTNET_ENDPOINTS[broker] : PRODUCTION_ENDPOINTS[broker];
+  const prefix = sandbox ? `${broker}_TESTNET` : broker;
+
+  return {
+    restURL: process.env[`${prefix}_REST_URL`] || defaults.restURL,
+    wsURL: process.env[`${prefix}_WS_URL`] || defaults.wsURL,
+    privateWsURL: process.env[`${prefix}_PRIVATE_WS_URL`] || defaults.privateWsURL,
+    headers: defaults.headers,
+  };
+};
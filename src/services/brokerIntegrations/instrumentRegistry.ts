@@ -0,0 +1,150 @@
+import { Instrument as InstrumentRecord } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../../config/database';
+import { logger } from '../../utils/logger';
+import { Instrument } from './baseBroker';
+import { BrokerFactory, SupportedBroker } from './brokerFactory';
+
+// Dollar-pegged quotes are interchangeable when copying across venues
+const USD_QUOTES = ['USD', 'USDT', 'USDC'];
+const QUOTE_PREFERENCE = ['USDT', 'USD', 'USDC'];
+
+export const toCanonicalId = (instrument: Pick<Instrument, 'baseAsset' | 'quoteAsset'>): string => {
+  const quote = USD_QUOTES.includes(instrument.quoteAsset.toUpperCase()) ? 'USD' : instrument.quoteAsset.toUpperCase();
+  return `${instrument.baseAsset.toUpperCase()}-${quote}-PERP`;
+};
+
+export class InstrumentRegistry {
+  private bySymbol: Map<string, InstrumentRecord> = new Map();
+  private byCanonicalId: Map<string, InstrumentRecord[]> = new Map();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  async load(): Promise<void> {
+    const instruments = await prisma.instrument.findMany({ where: { isActive: true } });
+    this.index(instruments);
+    logger.info(`Instrument registry loaded ${instruments.length} instruments`);
+  }
+
+  start(intervalMs: number = parseInt(process.env.INSTRUMENT_REFRESH_INTERVAL || '21600000')): void {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    this.refreshAll().catch((error) => {
+      logger.error('Initial instrument refresh failed:', error);
+    });
+
+    this.refreshTimer = setInterval(() => {
+      this.refreshAll().catch((error) => {
+        logger.error('Instrument refresh failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  async refreshAll(): Promise<void> {
+    for (const broker of BrokerFactory.getSupportedBrokers()) {
+      try {
+        await this.refresh(broker);
+      } catch (error) {
+        logger.error(`Failed to refresh instruments for ${broker}:`, error);
+      }
+    }
+  }
+
+  // Sync one exchange's product listing into the registry
+  async refresh(brokerType: SupportedBroker): Promise<number> {
+    // Product listings are public, so no account credentials are needed
+    const broker = BrokerFactory.createBroker(brokerType, { apiKey: '', apiSecret: '' }, `${brokerType}_public`);
+    const instruments = await broker.getInstruments();
+    const symbols = instruments.map(instrument => instrument.symbol);
+
+    await prisma.$transaction([
+      ...instruments.map(instrument => {
+        const data = {
+          canonicalId: toCanonicalId(instrument),
+          baseAsset: instrument.baseAsset,
+          quoteAsset: instrument.quoteAsset,
+          settleAsset: instrument.settleAsset,
+          isActive: true,
+        };
+
+        return prisma.instrument.upsert({
+          where: { broker_symbol: { broker: brokerType, symbol: instrument.symbol } },
+          update: data,
+          create: { broker: brokerType, symbol: instrument.symbol, ...data },
+        });
+      }),
+      // Delisted products stay on record but stop resolving
+      prisma.instrument.updateMany({
+        where: { broker: brokerType, symbol: { notIn: symbols } },
+        data: { isActive: false },
+      }),
+    ]);
+
+    await this.load();
+    logger.info(`Refreshed ${instruments.length} ${brokerType} instruments`);
+    return instruments.length;
+  }
+
+  get(broker: SupportedBroker, symbol: string): InstrumentRecord | undefined {
+    return this.bySymbol.get(`${broker}:${symbol}`);
+  }
+
+  toCanonical(broker: SupportedBroker, symbol: string): string | null {
+    return this.get(broker, symbol)?.canonicalId || null;
+  }
+
+  toNative(broker: SupportedBroker, canonicalId: string, preferredQuote?: string): string | null {
+    const candidates = (this.byCanonicalId.get(canonicalId) || []).filter(instrument => instrument.broker === broker);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const preference = preferredQuote ? [preferredQuote, ...QUOTE_PREFERENCE] : QUOTE_PREFERENCE;
+    for (const quote of preference) {
+      const match = candidates.find(instrument => instrument.quoteAsset === quote);
+      if (match) {
+        return match.symbol;
+      }
+    }
+
+    return candidates[0].symbol;
+  }
+
+  // Translate a symbol from one exchange's naming to another's
+  translate(fromBroker: SupportedBroker, symbol: string, toBroker: SupportedBroker): string | null {
+    const source = this.get(fromBroker, symbol);
+
+    if (!source) {
+      // Without listing data we can only trust an identical venue
+      return fromBroker === toBroker ? symbol : null;
+    }
+
+    if (fromBroker === toBroker) {
+      return symbol;
+    }
+
+    return this.toNative(toBroker, source.canonicalId, source.quoteAsset);
+  }
+
+  private index(instruments: InstrumentRecord[]): void {
+    this.bySymbol.clear();
+    this.byCanonicalId.clear();
+
+    instruments.forEach(instrument => {
+      this.bySymbol.set(`${instrument.broker}:${instrument.symbol}`, instrument);
+      const group = this.byCanonicalId.get(instrument.canonicalId) || [];
+      group.push(instrument);
+      this.byCanonicalId.set(instrument.canonicalId, group);
+    });
+  }
+}
+
+export const instrumentRegistry = new InstrumentRegistry();
@@ -1,22 +1,24 @@
 import axios, { AxiosInstance } from 'axios';
 import crypto from 'crypto';
 import WebSocket from 'ws';
-import { BaseBroker, BrokerCredentials, TradeOrder, TradeResult, AccountBalance, Position, MarketData } from './baseBroker';
+import { BaseBroker, BrokerCredentials, TradeOrder, TradeResult, AccountBalance, Position, MarketData, OrderUpdate, OrderFill, Instrument, StreamOptions, BrokerError } from './baseBroker';
+import { getBrokerEndpoints } from './endpoints';
+import { RateLimiter } from './rateLimiter';
 import { logger } from '../../utils/logger';
 
 export class OKXBroker extends BaseBroker {
   private apiClient: AxiosInstance;
-  private wsClient: WebSocket | null = null;
-  private readonly baseURL = 'https://www.okx.com';
-  private readonly wsURL = 'wss://ws.okx.com:8443/ws/v5/public';
+  private readonly endpoints = getBrokerEndpoints('OKX', this.credentials.sandbox);
+  private readonly rateLimiter = new RateLimiter('OKX', this.credentials);
 
   constructor(credentials: BrokerCredentials) {
     super(credentials);
     
     this.apiClient = axios.create({
-      baseURL: this.baseURL,
+      baseURL: this.endpoints.restURL,
       timeout: 10000,
       headers: {
+        ...this.endpoints.headers,
         'Content-Type': 'application/json',
       },
     });
@@ -25,9 +27,20 @@ export class OKXBroker extends BaseBroker {
   }
 
   private setupInterceptors(): void {
-    this.apiClient.interceptors.request.use((config) => {
-      const timestamp = new Date().toISOString();
+    this.apiClient.interceptors.request.use(async (config) => {
+      // Wait for the venue's rate limit before signing, so the timestamp is fresh when sent
+      await this.rateLimiter.acquire(config);
+
+      // OKX rejects requests stamped more than 30 seconds from its clock
+      const timestamp = new Date(await this.serverNow()).toISOString();
       const method = config.method?.toUpperCase() || 'GET';
+
+      // The signed request path includes the query string, so send the URL exactly as signed
+      if (config.params && Object.keys(config.params).length > 0) {
+        config.url = `${config.url}?${new URLSearchParams(config.params).toString()}`;
+        config.params = undefined;
+      }
+
       const path = config.url || '';
       const body = config.data ? JSON.stringify(config.data) : '';
       
@@ -48,17 +61,31 @@ export class OKXBroker extends BaseBroker {
     });
 
     this.apiClient.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        this.rateLimiter.observe(response);
+        return response;
+      },
       (error) => {
+        if (error.response?.status === 429) {
+          this.rateLimiter.backOff(error.response);
+        }
         throw this.handleError(error, 'OKX API');
       }
     );
   }
 
+  protected async fetchServerTime(): Promise<number | null> {
+    const response = await axios.get(`${this.endpoints.restURL}/api/v5/public/time`, {
+      timeout: 10000,
+      headers: this.endpoints.headers,
+    });
+    return parseInt(response.data.data[0].ts);
+  }
+
   async connect(): Promise<void> {
     try {
       await this.validateCredentials();
-      await this.connectWebSocket();
+      await this.openStream('market', this.marketStream());
       this.isConnected = true;
       logger.info('Connected to OKX');
     } catch (error) {
@@ -67,20 +94,14 @@ export class OKXBroker extends BaseBroker {
   }
 
   async disconnect(): Promise<void> {
-    if (this.wsClient) {
-      this.wsClient.close();
-      this.wsClient = null;
-    }
+    await this.unsubscribeFromUserData();
+    this.closeStream('market');
     this.isConnected = false;
     logger.info('Disconnected from OKX');
   }
 
   async validateCredentials(): Promise<boolean> {
     try {
-      if (!this.checkRateLimit('validate', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/api/v5/account/config');
       return response.data.code === '0';
     } catch (error) {
@@ -91,10 +112,6 @@ export class OKXBroker extends BaseBroker {
 
   async getAccountBalance(): Promise<AccountBalance[]> {
     try {
-      if (!this.checkRateLimit('balance', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/api/v5/account/balance');
       
       if (response.data.code !== '0') {
@@ -123,10 +140,6 @@ export class OKXBroker extends BaseBroker {
 
   async getPositions(): Promise<Position[]> {
     try {
-      if (!this.checkRateLimit('positions', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/api/v5/account/positions');
       
       if (response.data.code !== '0') {
@@ -137,7 +150,10 @@ export class OKXBroker extends BaseBroker {
         .filter((pos: any) => parseFloat(pos.pos) !== 0)
         .map((position: any) => ({
           symbol: position.instId,
-          side: position.posSide === 'long' ? 'long' : 'short',
+          // Net mode reports one position per instrument with the side in the sign of pos
+          side: position.posSide === 'net'
+            ? (parseFloat(position.pos) > 0 ? 'long' : 'short')
+            : position.posSide === 'long' ? 'long' : 'short',
           size: Math.abs(parseFloat(position.pos)),
           entryPrice: parseFloat(position.avgPx),
           markPrice: parseFloat(position.markPx),
@@ -151,15 +167,12 @@ export class OKXBroker extends BaseBroker {
 
   async placeOrder(order: TradeOrder): Promise<TradeResult> {
     try {
-      if (!this.checkRateLimit('order', 20, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const orderData: any = {
         instId: order.symbol,
         tdMode: 'cross',
         side: order.side,
-        ordType: order.type,
+        // OKX expresses time in force through the order type
+        ordType: order.type === 'limit' && order.timeInForce === 'IOC' ? 'ioc' : order.type === 'limit' && order.timeInForce === 'FOK' ? 'fok' : order.type,
         sz: order.quantity.toString(),
       };
 
@@ -171,6 +184,14 @@ export class OKXBroker extends BaseBroker {
         orderData.slTriggerPx = order.stopPrice.toString();
       }
 
+      if (order.reduceOnly) {
+        orderData.reduceOnly = true;
+      }
+
+      if (order.clientOrderId) {
+        orderData.clOrdId = order.clientOrderId;
+      }
+
       const response = await this.apiClient.post('/api/v5/trade/order', orderData);
       
       if (response.data.code !== '0') {
@@ -184,7 +205,8 @@ export class OKXBroker extends BaseBroker {
         side: order.side,
         quantity: order.quantity,
         price: order.price || 0,
-        status: this.mapOrderStatus(result.sCode),
+        // sCode only says the order was accepted; the tracker follows it from here
+        status: 'pending',
         timestamp: new Date(),
         fees: 0,
       };
@@ -195,10 +217,6 @@ export class OKXBroker extends BaseBroker {
 
   async cancelOrder(orderId: string, symbol: string): Promise<boolean> {
     try {
-      if (!this.checkRateLimit('cancel', 20, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.post('/api/v5/trade/cancel-order', {
         instId: symbol,
         ordId: orderId,
@@ -212,10 +230,6 @@ export class OKXBroker extends BaseBroker {
 
   async getOrderStatus(orderId: string, symbol: string): Promise<TradeResult> {
     try {
-      if (!this.checkRateLimit('order_status', 10, 60000)) {
-        throw new Error('Rate limit exceeded');
-      }
-
       const response = await this.apiClient.get('/api/v5/trade/order', {
         params: {
           instId: symbol,
@@ -236,77 +250,267 @@ export class OKXBroker extends BaseBroker {
         price: parseFloat(order.px || order.avgPx || '0'),
         status: this.mapOrderStatus(order.state),
         timestamp: new Date(parseInt(order.uTime)),
-        fees: parseFloat(order.fee || '0'),
+        // OKX reports fees charged as negative amounts
+        fees: Math.abs(parseFloat(order.fee || '0')),
+        filledQuantity: parseFloat(order.accFillSz || '0'),
+        averagePrice: parseFloat(order.avgPx || '0'),
       };
     } catch (error) {
       throw this.handleError(error, 'OKX get order status');
     }
   }
 
-  async subscribeToMarketData(symbols: string[]): Promise<void> {
-    if (!this.wsClient || this.wsClient.readyState !== WebSocket.OPEN) {
-      await this.connectWebSocket();
+  async getOpenOrders(): Promise<TradeResult[]> {
+    try {
+      const response = await this.apiClient.get('/api/v5/trade/orders-pending', {
+        params: { instType: 'SWAP' },
+      });
+
+      if (response.data.code !== '0') {
+        throw new Error('Failed to fetch open orders');
+      }
+
+      return response.data.data.map((order: any) => ({
+        orderId: order.ordId,
+        symbol: order.instId,
+        side: order.side,
+        quantity: parseFloat(order.sz),
+        price: parseFloat(order.px || '0'),
+        status: this.mapOrderStatus(order.state),
+        timestamp: new Date(parseInt(order.uTime)),
+      }));
+    } catch (error) {
+      throw this.handleError(error, 'OKX get open orders');
     }
+  }
 
-    const subscribeMessage = {
-      op: 'subscribe',
-      args: symbols.map(symbol => ({
-        channel: 'tickers',
-        instId: symbol,
-      })),
-    };
+  async getInstruments(): Promise<Instrument[]> {
+    try {
+      const response = await this.apiClient.get('/api/v5/public/instruments', {
+        params: { instType: 'SWAP' },
+      });
+
+      if (response.data.code !== '0') {
+        throw new Error('Failed to fetch instruments');
+      }
+
+      return response.data.data
+        .filter((instrument: any) => instrument.state === 'live')
+        .map((instrument: any) => {
+          const [baseAsset, quoteAsset] = instrument.uly.split('-');
+          return {
+            symbol: instrument.instId,
+            baseAsset,
+            quoteAsset,
+            settleAsset: instrument.settleCcy,
+            tickSize: parseFloat(instrument.tickSz),
+            lotSize: parseFloat(instrument.lotSz),
+            minQuantity: parseFloat(instrument.minSz),
+            minNotional: 0,
+            // Swaps are sized in contracts of ctVal base currency each
+            contractValue: parseFloat(instrument.ctVal),
+          };
+        });
+    } catch (error) {
+      throw this.handleError(error, 'OKX get instruments');
+    }
+  }
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    try {
+      const response = await this.apiClient.get('/api/v5/market/ticker', {
+        params: { instId: symbol },
+      });
+
+      if (response.data.code !== '0' || !response.data.data.length) {
+        throw new Error(response.data.msg || 'Failed to fetch ticker');
+      }
+
+      const ticker = response.data.data[0];
+      const last = parseFloat(ticker.last);
+      const open24h = parseFloat(ticker.open24h);
+      return {
+        symbol: ticker.instId,
+        price: last,
+        change24h: open24h > 0 ? ((last - open24h) / open24h) * 100 : 0,
+        volume24h: parseFloat(ticker.vol24h),
+        timestamp: new Date(parseInt(ticker.ts)),
+      };
+    } catch (error) {
+      throw this.handleError(error, 'OKX get market data');
+    }
+  }
+
+  async subscribeToMarketData(symbols: string[]): Promise<void> {
+    symbols.forEach(symbol => this.marketSymbols.add(symbol));
+
+    // A fresh connection subscribes every tracked symbol as it opens
+    const ws = this.getStream('market');
+    if (ws) {
+      ws.send(this.marketSubscription('subscribe', symbols));
+    } else {
+      await this.openStream('market', this.marketStream());
+    }
 
-    this.wsClient?.send(JSON.stringify(subscribeMessage));
     logger.info(`Subscribed to market data for: ${symbols.join(', ')}`);
   }
 
   async unsubscribeFromMarketData(symbols: string[]): Promise<void> {
-    if (!this.wsClient || this.wsClient.readyState !== WebSocket.OPEN) {
+    symbols.forEach(symbol => this.marketSymbols.delete(symbol));
+
+    const ws = this.getStream('market');
+    if (!ws) {
       return;
     }
 
-    const unsubscribeMessage = {
-      op: 'unsubscribe',
+    ws.send(this.marketSubscription('unsubscribe', symbols));
+    logger.info(`Unsubscribed from market data for: ${symbols.join(', ')}`);
+  }
+
+  private marketSubscription(op: 'subscribe' | 'unsubscribe', symbols: string[]): string {
+    return JSON.stringify({
+      op,
       args: symbols.map(symbol => ({
         channel: 'tickers',
         instId: symbol,
       })),
-    };
+    });
+  }
 
-    this.wsClient?.send(JSON.stringify(unsubscribeMessage));
-    logger.info(`Unsubscribed from market data for: ${symbols.join(', ')}`);
+  async subscribeToUserData(): Promise<void> {
+    await this.openStream('private', this.privateStream());
+    logger.info('Subscribed to OKX private orders channel');
   }
 
-  private async connectWebSocket(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.wsClient = new WebSocket(this.wsURL);
+  async unsubscribeFromUserData(): Promise<void> {
+    this.closeStream('private');
+  }
 
-      this.wsClient.on('open', () => {
-        logger.info('OKX WebSocket connected');
-        resolve();
-      });
+  private privateStream(): StreamOptions {
+    return {
+      label: 'OKX private WebSocket',
+      url: () => this.endpoints.privateWsURL,
+      // OKX closes connections with no traffic for 30 seconds
+      heartbeat: { intervalMs: 25000, message: 'ping' },
+      onOpen: async (ws: WebSocket) => {
+        const timestamp = ((await this.serverNow()) / 1000).toString();
+        const signature = crypto
+          .createHmac('sha256', this.credentials.apiSecret)
+          .update(timestamp + 'GET' + '/users/self/verify')
+          .digest('base64');
+
+        const reply = this.waitForMessage(ws, message => message.event === 'login' || message.event === 'error');
+        ws.send(JSON.stringify({
+          op: 'login',
+          args: [{
+            apiKey: this.credentials.apiKey,
+            passphrase: this.credentials.passphrase || '',
+            timestamp,
+            sign: signature,
+          }],
+        }));
+
+        const login = await reply;
+        if (login.event !== 'login' || login.code !== '0') {
+          throw new BrokerError(login.msg || 'OKX private WebSocket login failed');
+        }
+        logger.info('OKX private WebSocket logged in');
+
+        ws.send(JSON.stringify({
+          op: 'subscribe',
+          args: [{ channel: 'orders', instType: 'ANY' }],
+        }));
+        this.emit('userDataConnected');
+      },
+      onMessage: (data: WebSocket.Data) => {
+        const raw = data.toString();
+        if (raw === 'pong') {
+          return;
+        }
 
-      this.wsClient.on('message', (data: WebSocket.Data) => {
         try {
-          const message = JSON.parse(data.toString());
-          this.handleWebSocketMessage(message);
+          const message = JSON.parse(raw);
+
+          if (message.event === 'error') {
+            logger.error('OKX private WebSocket error event:', message);
+            return;
+          }
+
+          this.handlePrivateMessage(message);
         } catch (error) {
-          logger.error('Error parsing WebSocket message:', error);
+          logger.error('Error parsing private WebSocket message:', error);
         }
-      });
+      },
+    };
+  }
 
-      this.wsClient.on('error', (error) => {
-        logger.error('OKX WebSocket error:', error);
-        reject(error);
-      });
+  private handlePrivateMessage(message: any): void {
+    if (message.arg?.channel !== 'orders' || !Array.isArray(message.data)) {
+      return;
+    }
 
-      this.wsClient.on('close', () => {
-        logger.info('OKX WebSocket disconnected');
-        this.wsClient = null;
-      });
+    message.data.forEach((order: any) => {
+      const orderUpdate: OrderUpdate = {
+        orderId: order.ordId,
+        clientOrderId: order.clOrdId || undefined,
+        symbol: order.instId,
+        side: order.side,
+        type: order.ordType,
+        status: this.mapOrderStatus(order.state),
+        quantity: parseFloat(order.sz),
+        filledQuantity: parseFloat(order.accFillSz || '0'),
+        price: parseFloat(order.px || '0'),
+        averagePrice: parseFloat(order.avgPx || '0'),
+        timestamp: new Date(parseInt(order.uTime)),
+      };
+
+      this.emit('orderUpdate', orderUpdate);
+
+      if (order.tradeId && parseFloat(order.fillSz || '0') > 0) {
+        const fill: OrderFill = {
+          orderId: order.ordId,
+          tradeId: order.tradeId,
+          symbol: order.instId,
+          side: order.side,
+          quantity: parseFloat(order.fillSz),
+          price: parseFloat(order.fillPx),
+          // OKX reports fees as negative amounts
+          fee: Math.abs(parseFloat(order.fillFee || '0')),
+          feeAsset: order.fillFeeCcy,
+          timestamp: new Date(parseInt(order.fillTime || order.uTime)),
+        };
+
+        this.emit('fill', fill);
+      }
     });
   }
 
+  private marketStream(): StreamOptions {
+    return {
+      label: 'OKX WebSocket',
+      url: () => this.endpoints.wsURL,
+      heartbeat: { intervalMs: 25000, message: 'ping' },
+      onOpen: async (ws: WebSocket) => {
+        if (this.marketSymbols.size > 0) {
+          ws.send(this.marketSubscription('subscribe', Array.from(this.marketSymbols)));
+        }
+      },
+      onMessage: (data: WebSocket.Data) => {
+        const raw = data.toString();
+        if (raw === 'pong') {
+          return;
+        }
+
+        try {
+          const message = JSON.parse(raw);
+          this.handleWebSocketMessage(message);
+        } catch (error) {
+          logger.error('Error parsing WebSocket message:', error);
+        }
+      },
+    };
+  }
+
   private handleWebSocketMessage(message: any): void {
     if (message.arg?.channel === 'tickers' && message.data) {
       const ticker = message.data[0];
@@ -322,11 +526,12 @@ export class OKXBroker extends BaseBroker {
     }
   }
 
-  private mapOrderStatus(state: string): 'pending' | 'filled' | 'cancelled' | 'rejected' {
+  private mapOrderStatus(state: string): TradeResult['status'] {
     switch (state) {
       case 'live':
-      case 'partially_filled':
         return 'pending';
+      case 'partially_filled':
+        return 'partially_filled';
       case 'filled':
         return 'filled';
       case 'canceled':
@@ -0,0 +1,75 @@
+import { Instrument } from './baseBroker';
+
+export interface NormalizationInput {
+  side: 'buy' | 'sell';
+  baseQuantity: number;  // Desired size in base asset
+  referencePrice: number;
+  price?: number;        // Limit price, if any
+  reduceOnly?: boolean;  // Exits are exempt from minimum notional rules
+}
+
+export interface NormalizedOrder {
+  quantity: number;      // In the venue's order units (coins or contracts)
+  baseQuantity: number;
+  price?: number;
+}
+
+export type NormalizationResult =
+  | { ok: true; order: NormalizedOrder }
+  | { ok: false; reason: string };
+
+const stepDecimals = (step: number): number => {
+  const text = step.toString();
+  if (text.includes('e-')) {
+    return parseInt(text.split('e-')[1]);
+  }
+  return text.includes('.') ? text.split('.')[1].length : 0;
+};
+
+// Round onto a step grid without float artifacts like 0.30000000000000004
+export const roundToStep = (value: number, step: number, mode: 'down' | 'up' | 'nearest' = 'nearest'): number => {
+  if (!step || step <= 0) {
+    return value;
+  }
+
+  const units = value / step;
+  const rounded = mode === 'down'
+    ? Math.floor(units + 1e-9)
+    : mode === 'up'
+      ? Math.ceil(units - 1e-9)
+      : Math.round(units);
+
+  return parseFloat((rounded * step).toFixed(stepDecimals(step)));
+};
+
+export const normalizeOrder = (instrument: Instrument, input: NormalizationInput): NormalizationResult => {
+  const contractValue = instrument.contractValue > 0 ? instrument.contractValue : 1;
+
+  // Never round up into more size than was asked for
+  const quantity = roundToStep(input.baseQuantity / contractValue, instrument.lotSize, 'down');
+  const baseQuantity = quantity * contractValue;
+
+  if (quantity <= 0 || quantity < instrument.minQuantity) {
+    return {
+      ok: false,
+      reason: `Quantity ${input.baseQuantity} ${instrument.baseAsset} is below the ${instrument.symbol} minimum of ${instrument.minQuantity * contractValue} ${instrument.baseAsset}`,
+    };
+  }
+
+  const notional = baseQuantity * (input.price || input.referencePrice);
+  if (!input.reduceOnly && instrument.minNotional > 0 && notional < instrument.minNotional) {
+    return {
+      ok: false,
+      reason: `Order notional ${notional.toFixed(2)} is below the ${instrument.symbol} minimum of ${instrument.minNotional} ${instrument.quoteAsset}`,
+    };
+  }
+
+  const order: NormalizedOrder = { quantity, baseQuantity };
+
+  if (input.price !== undefined) {
+    // Round limit prices toward the side that stays within the requested price
+    order.price = roundToStep(input.price, instrument.tickSize, input.side === 'buy' ? 'down' : 'up');
+  }
+
+  return { ok: true, order };
+};
@@ -0,0 +1,541 @@
+import { PaperAccount, PaperOrder, PaperPosition, TradeStatus } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../../config/database';
+import { logger } from '../../utils/logger';
+import { BaseBroker, BrokerCredentials, BrokerError, TradeOrder, TradeResult, AccountBalance, Position, MarketData, OrderUpdate, OrderFill, Instrument } from './baseBroker';
+import { getPaperMarketBroker, getPaperPriceFeed } from './paperPriceFeed';
+
+const SIZE_EPSILON = 1e-9;
+
+const toResultStatus = (status: TradeStatus): TradeResult['status'] => {
+  switch (status) {
+    case 'EXECUTED':
+      return 'filled';
+    case 'PARTIALLY_FILLED':
+      return 'partially_filled';
+    case 'PENDING':
+      return 'pending';
+    case 'CANCELLED':
+      return 'cancelled';
+    default:
+      return 'rejected';
+  }
+};
+
+// Long is positive, short negative
+const signedQuantity = (position: Pick<PaperPosition, 'side' | 'quantity'> | null | undefined): number =>
+  position ? (position.side === 'BUY' ? 1 : -1) * Number(position.quantity) : 0;
+
+// Simulated venue: prices come from the mirrored market, balances and positions live in the database
+export class PaperBroker extends BaseBroker {
+  private readonly accountId?: string;
+  private matchTimer: NodeJS.Timeout | null = null;
+  private marketDataSymbols: Set<string> = new Set();
+  private userDataActive: boolean = false;
+  private lock: Promise<unknown> = Promise.resolve();
+  private readonly matchIntervalMs = parseInt(process.env.PAPER_MATCH_INTERVAL || '1000');
+
+  constructor(credentials: BrokerCredentials) {
+    super(credentials);
+    this.accountId = credentials.accountId;
+  }
+
+  async connect(): Promise<void> {
+    if (this.accountId) {
+      await this.getPaperAccount();
+    }
+
+    this.startMatching();
+    this.isConnected = true;
+    logger.info(`Connected to paper broker${this.accountId ? ` for account ${this.accountId}` : ''}`);
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.matchTimer) {
+      clearInterval(this.matchTimer);
+      this.matchTimer = null;
+    }
+    this.marketDataSymbols.clear();
+    this.userDataActive = false;
+    this.isConnected = false;
+    logger.info('Disconnected from paper broker');
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    if (!this.accountId) {
+      return true;
+    }
+
+    const paperAccount = await prisma.paperAccount.findUnique({ where: { accountId: this.accountId } });
+    return !!paperAccount;
+  }
+
+  async getAccountBalance(): Promise<AccountBalance[]> {
+    const paperAccount = await this.getPaperAccount();
+    const positions = await this.getPositions();
+
+    const unrealized = positions.reduce((sum, position) => sum + position.pnl, 0);
+    const usedMargin = await this.getUsedMargin(paperAccount, positions);
+    const equity = Number(paperAccount.balance) + unrealized;
+
+    return [{
+      asset: paperAccount.currency,
+      free: Math.max(0, equity - usedMargin),
+      locked: usedMargin,
+      total: equity,
+    }];
+  }
+
+  async getPositions(): Promise<Position[]> {
+    const paperAccount = await this.getPaperAccount();
+    const records = await prisma.paperPosition.findMany({ where: { paperAccountId: paperAccount.id } });
+
+    return Promise.all(records.map(async (record) => {
+      const quantity = signedQuantity(record);
+      const entryPrice = Number(record.entryPrice);
+      const contractValue = await this.getContractValue(record.symbol);
+      const markPrice = await this.getPrice(record.symbol).catch(() => entryPrice);
+      const pnl = (markPrice - entryPrice) * quantity * contractValue;
+      const cost = Math.abs(quantity) * entryPrice * contractValue;
+
+      return {
+        symbol: record.symbol,
+        side: quantity > 0 ? 'long' as const : 'short' as const,
+        size: Math.abs(quantity),
+        entryPrice,
+        markPrice,
+        pnl,
+        percentage: cost > 0 ? (pnl / cost) * 100 : 0,
+      };
+    }));
+  }
+
+  async placeOrder(order: TradeOrder): Promise<TradeResult> {
+    return this.runExclusive(async () => {
+      const paperAccount = await this.getPaperAccount();
+
+      // Same idempotency guarantee the live venues give for a client order id
+      if (order.clientOrderId) {
+        const existing = await prisma.paperOrder.findUnique({
+          where: { paperAccountId_clientOrderId: { paperAccountId: paperAccount.id, clientOrderId: order.clientOrderId } },
+        });
+        if (existing) {
+          return this.toResult(existing);
+        }
+      }
+
+      if (!(order.quantity > 0)) {
+        throw new BrokerError('Order quantity must be greater than 0');
+      }
+
+      if (order.type === 'limit' && !(order.price && order.price > 0)) {
+        throw new BrokerError('Limit orders need a price');
+      }
+
+      const instrument = await this.getInstrument(order.symbol);
+      if (!instrument) {
+        throw new BrokerError(`Unknown symbol ${order.symbol}`);
+      }
+
+      const marketPrice = await this.getPrice(order.symbol);
+      const position = await prisma.paperPosition.findUnique({
+        where: { paperAccountId_symbol: { paperAccountId: paperAccount.id, symbol: order.symbol } },
+      });
+
+      let quantity = order.quantity;
+      if (order.reduceOnly) {
+        const held = signedQuantity(position);
+        const reduces = (held > 0 && order.side === 'sell') || (held < 0 && order.side === 'buy');
+        if (!reduces) {
+          throw new BrokerError(`Reduce-only ${order.side} has no ${order.symbol} position to reduce`);
+        }
+        quantity = Math.min(quantity, Math.abs(held));
+      }
+
+      await this.checkMargin(paperAccount, position, order.side, quantity, order.price || marketPrice, instrument.contractValue);
+
+      let record = await prisma.paperOrder.create({
+        data: {
+          paperAccountId: paperAccount.id,
+          clientOrderId: order.clientOrderId,
+          symbol: order.symbol,
+          side: order.side === 'buy' ? 'BUY' : 'SELL',
+          type: order.type,
+          timeInForce: order.timeInForce || (order.type === 'market' ? 'IOC' : 'GTC'),
+          quantity,
+          price: order.price,
+          reduceOnly: !!order.reduceOnly,
+        },
+      });
+
+      const slippage = Number(paperAccount.slippage) / 100;
+
+      if (order.type === 'market') {
+        // Market orders pay the configured slippage on top of the feed price
+        const fillPrice = marketPrice * (order.side === 'buy' ? 1 + slippage : 1 - slippage);
+        record = await this.fill(paperAccount, record, fillPrice, Number(paperAccount.takerFee));
+      } else if (this.isMarketable(order.side, order.price!, marketPrice)) {
+        // Crossing limits take liquidity at the better of the two prices
+        const fillPrice = order.side === 'buy' ? Math.min(order.price!, marketPrice) : Math.max(order.price!, marketPrice);
+        record = await this.fill(paperAccount, record, fillPrice, Number(paperAccount.takerFee));
+      } else if (record.timeInForce === 'IOC' || record.timeInForce === 'FOK') {
+        record = await this.updateOrder(record, { status: 'CANCELLED' });
+      } else {
+        this.startMatching();
+      }
+
+      logger.info(`Paper order ${record.id}: ${order.side} ${quantity} ${order.symbol} ${record.status.toLowerCase()}`);
+      return this.toResult(record);
+    });
+  }
+
+  async cancelOrder(orderId: string, symbol: string): Promise<boolean> {
+    return this.runExclusive(async () => {
+      const paperAccount = await this.getPaperAccount();
+      const result = await prisma.paperOrder.updateMany({
+        where: { id: orderId, paperAccountId: paperAccount.id, symbol, status: 'PENDING' },
+        data: { status: 'CANCELLED' },
+      });
+
+      if (result.count > 0) {
+        const record = await prisma.paperOrder.findUnique({ where: { id: orderId } });
+        this.emitOrderUpdate(record!);
+      }
+
+      return result.count > 0;
+    });
+  }
+
+  async getOrderStatus(orderId: string, symbol: string): Promise<TradeResult> {
+    const paperAccount = await this.getPaperAccount();
+    const record = await prisma.paperOrder.findFirst({
+      where: { id: orderId, paperAccountId: paperAccount.id, symbol },
+    });
+
+    if (!record) {
+      throw new BrokerError(`Paper order ${orderId} not found`);
+    }
+
+    if (record.status === 'PENDING') {
+      this.startMatching();
+    }
+
+    return this.toResult(record);
+  }
+
+  async getOpenOrders(): Promise<TradeResult[]> {
+    const paperAccount = await this.getPaperAccount();
+    const records = await prisma.paperOrder.findMany({
+      where: { paperAccountId: paperAccount.id, status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Orders resting from before a restart need the matcher running again
+    if (records.length > 0) {
+      this.startMatching();
+    }
+
+    return records.map(record => this.toResult(record));
+  }
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    try {
+      return await getPaperPriceFeed().getMarketData(symbol);
+    } catch (error) {
+      throw error instanceof BrokerError ? error : this.handleError(error, 'Paper broker get market data');
+    }
+  }
+
+  async subscribeToMarketData(symbols: string[]): Promise<void> {
+    symbols.forEach(symbol => this.marketDataSymbols.add(symbol));
+    this.startMatching();
+    logger.info(`Subscribed to paper market data for: ${symbols.join(', ')}`);
+  }
+
+  async unsubscribeFromMarketData(symbols: string[]): Promise<void> {
+    symbols.forEach(symbol => this.marketDataSymbols.delete(symbol));
+    logger.info(`Unsubscribed from paper market data for: ${symbols.join(', ')}`);
+  }
+
+  // Fills are produced in-process, so the private stream is just a switch
+  async subscribeToUserData(): Promise<void> {
+    if (this.userDataActive) {
+      return;
+    }
+
+    if (!this.isConnected) {
+      await this.connect();
+    }
+
+    this.userDataActive = true;
+    logger.info(`Subscribed to paper order stream for account ${this.accountId}`);
+    this.emit('userDataConnected');
+  }
+
+  async unsubscribeFromUserData(): Promise<void> {
+    this.userDataActive = false;
+  }
+
+  // Paper accounts trade the mirrored venue's listings under its own symbols
+  async getInstruments(): Promise<Instrument[]> {
+    return getPaperMarketBroker().getInstruments();
+  }
+
+  private startMatching(): void {
+    if (this.matchTimer) {
+      return;
+    }
+
+    this.matchTimer = setInterval(() => {
+      this.tick().catch((error) => {
+        logger.error(`Paper broker tick failed for ${this.accountId || 'public'}:`, error);
+      });
+    }, this.matchIntervalMs);
+  }
+
+  private async getPaperAccount(): Promise<PaperAccount> {
+    if (!this.accountId) {
+      throw new BrokerError('Paper broker instance is not bound to an account');
+    }
+
+    const paperAccount = await prisma.paperAccount.findUnique({ where: { accountId: this.accountId } });
+    if (!paperAccount) {
+      throw new BrokerError(`No paper account for broker account ${this.accountId}`);
+    }
+
+    return paperAccount;
+  }
+
+  private async getPrice(symbol: string): Promise<number> {
+    return (await this.getMarketData(symbol)).price;
+  }
+
+  private async getContractValue(symbol: string): Promise<number> {
+    const instrument = await this.getInstrument(symbol);
+    return instrument?.contractValue || 1;
+  }
+
+  private async getUsedMargin(paperAccount: PaperAccount, positions: Position[]): Promise<number> {
+    let notional = 0;
+    for (const position of positions) {
+      notional += position.size * position.markPrice * await this.getContractValue(position.symbol);
+    }
+    return notional / Number(paperAccount.leverage);
+  }
+
+  // Only the part of an order that adds exposure needs margin
+  private async checkMargin(
+    paperAccount: PaperAccount,
+    position: PaperPosition | null,
+    side: 'buy' | 'sell',
+    quantity: number,
+    price: number,
+    contractValue: number
+  ): Promise<void> {
+    const held = signedQuantity(position);
+    const after = held + (side === 'buy' ? quantity : -quantity);
+    const addedExposure = Math.max(0, Math.abs(after) - (Math.sign(after) === Math.sign(held) ? Math.abs(held) : 0));
+
+    if (addedExposure <= SIZE_EPSILON) {
+      return;
+    }
+
+    const [balance] = await this.getAccountBalance();
+    const required = (addedExposure * price * contractValue) / Number(paperAccount.leverage)
+      + quantity * price * contractValue * Number(paperAccount.takerFee) / 100;
+
+    if (required > balance.free) {
+      throw new BrokerError(`Insufficient paper margin: ${required.toFixed(2)} ${paperAccount.currency} required, ${balance.free.toFixed(2)} available`);
+    }
+  }
+
+  private isMarketable(side: 'buy' | 'sell', limitPrice: number, marketPrice: number): boolean {
+    return side === 'buy' ? marketPrice <= limitPrice : marketPrice >= limitPrice;
+  }
+
+  // Apply a complete fill to the position and wallet in one transaction
+  private async fill(paperAccount: PaperAccount, order: PaperOrder, price: number, feePercent: number): Promise<PaperOrder> {
+    const contractValue = await this.getContractValue(order.symbol);
+    const fillQuantity = (order.side === 'BUY' ? 1 : -1) * Number(order.quantity);
+    const fee = Math.abs(fillQuantity) * price * contractValue * feePercent / 100;
+
+    const filled = await prisma.$transaction(async (tx) => {
+      const position = await tx.paperPosition.findUnique({
+        where: { paperAccountId_symbol: { paperAccountId: paperAccount.id, symbol: order.symbol } },
+      });
+
+      const held = signedQuantity(position);
+      const entryPrice = position ? Number(position.entryPrice) : 0;
+      const after = held + fillQuantity;
+      let realized = 0;
+      let nextEntry = price;
+
+      if (held === 0 || Math.sign(held) === Math.sign(fillQuantity)) {
+        nextEntry = (Math.abs(held) * entryPrice + Math.abs(fillQuantity) * price) / Math.abs(after);
+      } else {
+        const closed = Math.min(Math.abs(held), Math.abs(fillQuantity));
+        realized = closed * (price - entryPrice) * Math.sign(held) * contractValue;
+        // Still on the same side keeps the old entry; flipping opens fresh at the fill price
+        nextEntry = Math.sign(after) === Math.sign(held) ? entryPrice : price;
+      }
+
+      if (Math.abs(after) <= SIZE_EPSILON) {
+        if (position) {
+          await tx.paperPosition.delete({ where: { id: position.id } });
+        }
+      } else {
+        await tx.paperPosition.upsert({
+          where: { paperAccountId_symbol: { paperAccountId: paperAccount.id, symbol: order.symbol } },
+          update: { side: after > 0 ? 'BUY' : 'SELL', quantity: Math.abs(after), entryPrice: nextEntry },
+          create: {
+            paperAccountId: paperAccount.id,
+            symbol: order.symbol,
+            side: after > 0 ? 'BUY' : 'SELL',
+            quantity: Math.abs(after),
+            entryPrice: nextEntry,
+          },
+        });
+      }
+
+      await tx.paperAccount.update({
+        where: { id: paperAccount.id },
+        data: { balance: { increment: realized - fee } },
+      });
+
+      return tx.paperOrder.update({
+        where: { id: order.id },
+        data: {
+          status: 'EXECUTED',
+          filledQuantity: order.quantity,
+          averagePrice: price,
+          fees: fee,
+        },
+      });
+    });
+
+    this.emitOrderUpdate(filled);
+
+    if (this.userDataActive) {
+      const fillEvent: OrderFill = {
+        orderId: filled.id,
+        tradeId: `${filled.id}-1`,
+        symbol: filled.symbol,
+        side: filled.side === 'BUY' ? 'buy' : 'sell',
+        quantity: Number(filled.quantity),
+        price,
+        fee,
+        feeAsset: paperAccount.currency,
+        timestamp: filled.updatedAt,
+      };
+
+      this.emit('fill', fillEvent);
+    }
+
+    return filled;
+  }
+
+  private async updateOrder(order: PaperOrder, data: { status: TradeStatus }): Promise<PaperOrder> {
+    const updated = await prisma.paperOrder.update({ where: { id: order.id }, data });
+    this.emitOrderUpdate(updated);
+    return updated;
+  }
+
+  private emitOrderUpdate(order: PaperOrder): void {
+    if (!this.userDataActive) {
+      return;
+    }
+
+    const orderUpdate: OrderUpdate = {
+      orderId: order.id,
+      clientOrderId: order.clientOrderId || undefined,
+      symbol: order.symbol,
+      side: order.side === 'BUY' ? 'buy' : 'sell',
+      type: order.type,
+      status: toResultStatus(order.status),
+      quantity: Number(order.quantity),
+      filledQuantity: Number(order.filledQuantity),
+      price: Number(order.price || 0),
+      averagePrice: Number(order.averagePrice || 0),
+      timestamp: order.updatedAt,
+    };
+
+    this.emit('orderUpdate', orderUpdate);
+  }
+
+  // Resting limits fill at their own price, as makers, once the feed trades through them
+  private async tick(): Promise<void> {
+    for (const symbol of Array.from(this.marketDataSymbols)) {
+      try {
+        this.emit('marketData', await this.getMarketData(symbol));
+      } catch (error) {
+        logger.warn(`Paper market data for ${symbol} unavailable:`, error);
+      }
+    }
+
+    if (!this.accountId) {
+      return;
+    }
+
+    await this.runExclusive(async () => {
+      const paperAccount = await this.getPaperAccount();
+      const openOrders = await prisma.paperOrder.findMany({
+        where: { paperAccountId: paperAccount.id, status: 'PENDING', type: 'limit' },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      for (let order of openOrders) {
+        const side = order.side === 'BUY' ? 'buy' : 'sell';
+        const marketPrice = await this.getPrice(order.symbol).catch(() => null);
+        if (marketPrice === null || !this.isMarketable(side, Number(order.price), marketPrice)) {
+          continue;
+        }
+
+        if (order.reduceOnly) {
+          const position = await prisma.paperPosition.findUnique({
+            where: { paperAccountId_symbol: { paperAccountId: paperAccount.id, symbol: order.symbol } },
+          });
+          const held = signedQuantity(position);
+          const reduces = (held > 0 && side === 'sell') || (held < 0 && side === 'buy');
+
+          if (!reduces) {
+            await this.updateOrder(order, { status: 'CANCELLED' });
+            continue;
+          }
+
+          if (Number(order.quantity) > Math.abs(held)) {
+            order = await prisma.paperOrder.update({
+              where: { id: order.id },
+              data: { quantity: Math.abs(held) },
+            });
+          }
+        }
+
+        await this.fill(paperAccount, order, Number(order.price), Number(paperAccount.makerFee));
+      }
+    });
+  }
+
+  // Order placement, cancels and matching must not interleave on one account
+  private async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const current = this.lock.catch(() => undefined).then(task);
+    this.lock = current;
+    return current;
+  }
+
+  private toResult(order: PaperOrder): TradeResult {
+    const averagePrice = Number(order.averagePrice || 0);
+
+    return {
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side === 'BUY' ? 'buy' : 'sell',
+      quantity: Number(order.quantity),
+      price: averagePrice || Number(order.price || 0),
+      status: toResultStatus(order.status),
+      timestamp: order.updatedAt,
+      fees: Number(order.fees),
+      filledQuantity: Number(order.filledQuantity),
+      averagePrice,
+    };
+  }
+}
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import { logger } from '../../utils/logger';
+import { BaseBroker, BrokerError, MarketData } from './baseBroker';
+import { BrokerFactory, SupportedBroker } from './brokerFactory';
+
+export interface PriceFeed {
+  getMarketData(symbol: string): Promise<MarketData>;
+}
+
+interface ReplayTick {
+  symbol: string;
+  price: number;
+  timestamp: number;
+}
+
+const PAPER_MARKETS: SupportedBroker[] = ['DELTA', 'BINANCE', 'BYBIT', 'OKX'];
+
+// Venue whose listings and symbols paper accounts mirror
+export const getPaperMarket = (): SupportedBroker => {
+  const market = (process.env.PAPER_MARKET || 'BINANCE').toUpperCase() as SupportedBroker;
+  if (!PAPER_MARKETS.includes(market)) {
+    throw new Error(`PAPER_MARKET must be one of ${PAPER_MARKETS.join(', ')}`);
+  }
+  return market;
+};
+
+// Product listings and tickers are public, so no account credentials are needed
+export const getPaperMarketBroker = (): BaseBroker => {
+  const market = getPaperMarket();
+  return BrokerFactory.createBroker(market, { apiKey: '', apiSecret: '' }, `${market}_public`);
+};
+
+// Live prices from the mirrored venue's ticker, shared briefly so many paper accounts stay under its rate limit
+export class LivePriceFeed implements PriceFeed {
+  private cache: Map<string, { data: MarketData; fetchedAt: number }> = new Map();
+
+  constructor(private readonly maxAgeMs: number = 1000) {}
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    const cached = this.cache.get(symbol);
+    if (cached && Date.now() - cached.fetchedAt < this.maxAgeMs) {
+      return cached.data;
+    }
+
+    const data = await getPaperMarketBroker().getMarketData(symbol);
+    this.cache.set(symbol, { data, fetchedAt: Date.now() });
+    return data;
+  }
+}
+
+// Recorded ticks played back against the wall clock, optionally sped up
+export class ReplayPriceFeed implements PriceFeed {
+  private ticks: Map<string, ReplayTick[]> = new Map();
+  private origin: number = 0;
+  private readonly startedAt = Date.now();
+
+  constructor(filePath: string, private readonly speed: number = 1) {
+    // One JSON array of { symbol, price, timestamp } objects
+    const records = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (!Array.isArray(records) || records.length === 0) {
+      throw new Error(`Replay file ${filePath} has no ticks`);
+    }
+
+    const ticks: ReplayTick[] = records
+      .map((record: any) => ({
+        symbol: String(record.symbol),
+        price: Number(record.price),
+        timestamp: new Date(record.timestamp).getTime(),
+      }))
+      .filter(tick => Number.isFinite(tick.price) && tick.price > 0 && Number.isFinite(tick.timestamp))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    this.origin = ticks[0]?.timestamp || 0;
+
+    for (const tick of ticks) {
+      const series = this.ticks.get(tick.symbol) || [];
+      series.push(tick);
+      this.ticks.set(tick.symbol, series);
+    }
+
+    logger.info(`Loaded ${ticks.length} replay ticks for ${this.ticks.size} symbols from ${filePath}`);
+  }
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    const series = this.ticks.get(symbol);
+    if (!series || series.length === 0) {
+      throw new BrokerError(`No replayed prices for ${symbol}`);
+    }
+
+    const clock = this.origin + (Date.now() - this.startedAt) * this.speed;
+
+    // Latest tick at or before the replay clock; the series holds its last price once exhausted
+    let low = 0;
+    let high = series.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (series[mid].timestamp <= clock) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const tick = series[low];
+    const dayAgo = series.find(candidate => candidate.timestamp >= tick.timestamp - 24 * 60 * 60 * 1000) || tick;
+
+    return {
+      symbol,
+      price: tick.price,
+      change24h: dayAgo.price > 0 ? ((tick.price - dayAgo.price) / dayAgo.price) * 100 : 0,
+      volume24h: 0,
+      timestamp: new Date(tick.timestamp),
+    };
+  }
+}
+
+let priceFeed: PriceFeed | null = null;
+
+export const getPaperPriceFeed = (): PriceFeed => {
+  if (!priceFeed) {
+    priceFeed = process.env.PAPER_REPLAY_FILE
+      ? new ReplayPriceFeed(process.env.PAPER_REPLAY_FILE, parseFloat(process.env.PAPER_REPLAY_SPEED || '1'))
+      : new LivePriceFeed();
+  }
+  return priceFeed;
+};
@@ -0,0 +1,236 @@
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import crypto from 'crypto';
+import { getRedisClient } from '../../config/redis';
+import { logger } from '../../utils/logger';
+import { BrokerCredentials, BrokerError } from './baseBroker';
+import { ExchangeBroker } from './endpoints';
+import { RATE_LIMITS, RateLimitBucket, RequestWeights, VenueRateLimits } from './rateLimits';
+
+interface BucketCharge {
+  key: string;
+  bucket: RateLimitBucket;
+  amount: number;
+}
+
+// ARGV holds capacity, intervalMs and cost per key; returns 0 once every bucket is charged, else ms to wait
+const TAKE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local wait = 0
+local levels = {}
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 3 - 2])
+  local interval = tonumber(ARGV[i * 3 - 1])
+  local cost = tonumber(ARGV[i * 3])
+  local state = redis.call('HMGET', key, 'tokens', 'updatedAt')
+  local tokens = tonumber(state[1]) or capacity
+  local updatedAt = tonumber(state[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * capacity / interval)
+  levels[i] = tokens
+  if tokens < cost then
+    wait = math.max(wait, math.ceil((cost - tokens) * interval / capacity))
+  end
+end
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 3 - 2])
+  local interval = tonumber(ARGV[i * 3 - 1])
+  local tokens = levels[i]
+  if wait == 0 then
+    tokens = tokens - tonumber(ARGV[i * 3])
+  end
+  redis.call('HSET', key, 'tokens', tostring(tokens), 'updatedAt', now)
+  redis.call('PEXPIRE', key, interval * 2 + math.ceil(math.max(0, -tokens) * interval / capacity))
+end
+return wait
+`;
+
+// ARGV holds capacity, intervalMs and a ceiling per key; lowers each bucket to what the venue says is left
+const LIMIT_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 3 - 2])
+  local interval = tonumber(ARGV[i * 3 - 1])
+  local ceiling = tonumber(ARGV[i * 3])
+  local state = redis.call('HMGET', key, 'tokens', 'updatedAt')
+  local tokens = tonumber(state[1]) or capacity
+  local updatedAt = tonumber(state[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * capacity / interval, ceiling)
+  redis.call('HSET', key, 'tokens', tostring(tokens), 'updatedAt', now)
+  redis.call('PEXPIRE', key, interval * 2 + math.ceil(math.max(0, -tokens) * interval / capacity))
+end
+return 0
+`;
+
+// Used while Redis is unavailable, so trading slows down instead of stopping
+const localBuckets: Map<string, { tokens: number; updatedAt: number }> = new Map();
+
+const refillLocal = (charge: BucketCharge, now: number): number => {
+  const { capacity, intervalMs } = charge.bucket;
+  const state = localBuckets.get(charge.key) || { tokens: capacity, updatedAt: now };
+  return Math.min(capacity, state.tokens + Math.max(0, now - state.updatedAt) * capacity / intervalMs);
+};
+
+const takeLocal = (charges: BucketCharge[]): number => {
+  const now = Date.now();
+  const levels = charges.map(charge => refillLocal(charge, now));
+  const wait = charges.reduce((longest, charge, i) => levels[i] >= charge.amount
+    ? longest
+    : Math.max(longest, Math.ceil((charge.amount - levels[i]) * charge.bucket.intervalMs / charge.bucket.capacity)), 0);
+
+  charges.forEach((charge, i) => {
+    localBuckets.set(charge.key, { tokens: wait === 0 ? levels[i] - charge.amount : levels[i], updatedAt: now });
+  });
+  return wait;
+};
+
+const limitLocal = (charges: BucketCharge[]): void => {
+  const now = Date.now();
+  charges.forEach(charge => {
+    localBuckets.set(charge.key, { tokens: Math.min(refillLocal(charge, now), charge.amount), updatedAt: now });
+  });
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Token buckets in Redis shared by every process; requests queue per account until the venue's weights allow them
+export class RateLimiter {
+  private readonly limits: VenueRateLimits;
+  private readonly venueKey: string;
+  private readonly accountKey: string;
+  private readonly maxWaitMs = parseInt(process.env.RATE_LIMIT_MAX_WAIT_MS || '30000');
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(venue: ExchangeBroker, credentials: BrokerCredentials) {
+    this.limits = RATE_LIMITS[venue];
+    // Testnets count separately from production
+    this.venueKey = credentials.sandbox ? `${venue}_TESTNET` : venue;
+    this.accountKey = crypto.createHash('sha256').update(credentials.apiKey).digest('hex').substring(0, 16);
+  }
+
+  // Wait for the request's weight, in arrival order; signing must happen after this so timestamps stay fresh
+  acquire(config: AxiosRequestConfig): Promise<void> {
+    const charges = this.chargesFor(this.limits.weigh(...this.describe(config), config.params));
+    const turn = this.queue.then(() => this.waitForTokens(charges, config));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  // Align the buckets with the usage the venue reports
+  observe(response: AxiosResponse): void {
+    if (!this.limits.readRemaining) {
+      return;
+    }
+
+    const [method, path] = this.describe(response.config);
+    const remaining = this.limits.readRemaining(response.headers, method, path);
+    this.limit(this.chargesFor(remaining)).catch((error) => {
+      logger.warn('Failed to record reported rate limit usage:', error);
+    });
+  }
+
+  // After a 429, hold the request's buckets empty until the venue's retry-after has passed
+  backOff(response: AxiosResponse): void {
+    const { config } = response;
+    const weights = this.limits.weigh(...this.describe(config), config.params);
+    const retryAfterMs = this.limits.readRetryAfterMs?.(response.headers);
+    const deficits: RequestWeights = {};
+
+    for (const name of Object.keys(weights)) {
+      const bucket = this.limits.buckets[name];
+      const holdMs = retryAfterMs ?? bucket.intervalMs;
+      deficits[name] = -holdMs * bucket.capacity / bucket.intervalMs;
+    }
+
+    this.limit(this.chargesFor(deficits, true)).catch((error) => {
+      logger.warn('Failed to record rate limit back-off:', error);
+    });
+  }
+
+  private describe(config: AxiosRequestConfig): [string, string] {
+    const method = (config.method || 'GET').toUpperCase();
+    const path = (config.url || '').split('?')[0];
+    return [method, path];
+  }
+
+  private chargesFor(weights: RequestWeights, allowNegative: boolean = false): BucketCharge[] {
+    return Object.entries(weights)
+      .filter(([name, amount]) => this.limits.buckets[name] && (allowNegative || amount > 0))
+      .map(([name, amount]) => {
+        const bucket = this.limits.buckets[name];
+        const scope = bucket.perAccount ? this.accountKey : 'ip';
+        return {
+          key: `ratelimit:${this.venueKey}:${name}:${scope}`,
+          bucket,
+          // A request heavier than the whole bucket would otherwise never fit
+          amount: Math.min(amount, bucket.capacity),
+        };
+      });
+  }
+
+  private async waitForTokens(charges: BucketCharge[], config: AxiosRequestConfig): Promise<void> {
+    if (charges.length === 0) {
+      return;
+    }
+
+    const deadline = Date.now() + this.maxWaitMs;
+    for (;;) {
+      const waitMs = await this.take(charges);
+      if (waitMs === 0) {
+        return;
+      }
+
+      if (Date.now() + waitMs > deadline) {
+        throw new BrokerError('Rate limit exceeded', true);
+      }
+
+      logger.debug(`Rate limited ${this.venueKey} ${config.url}, waiting ${waitMs}ms`);
+      await sleep(waitMs);
+    }
+  }
+
+  private async take(charges: BucketCharge[]): Promise<number> {
+    const redis = this.getRedis();
+    if (redis) {
+      try {
+        return Number(await redis.eval(TAKE_SCRIPT, this.scriptArgs(charges)));
+      } catch (error) {
+        logger.warn('Rate limiter could not reach Redis, using in-process buckets:', error);
+      }
+    }
+    return takeLocal(charges);
+  }
+
+  private async limit(charges: BucketCharge[]): Promise<void> {
+    if (charges.length === 0) {
+      return;
+    }
+
+    const redis = this.getRedis();
+    if (redis) {
+      await redis.eval(LIMIT_SCRIPT, this.scriptArgs(charges));
+      return;
+    }
+    limitLocal(charges);
+  }
+
+  private scriptArgs(charges: BucketCharge[]): { keys: string[]; arguments: string[] } {
+    return {
+      keys: charges.map(charge => charge.key),
+      arguments: charges.flatMap(charge => [
+        charge.bucket.capacity.toString(),
+        charge.bucket.intervalMs.toString(),
+        charge.amount.toString(),
+      ]),
+    };
+  }
+
+  private getRedis() {
+    try {
+      const client = getRedisClient();
+      return client.isReady ? client : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
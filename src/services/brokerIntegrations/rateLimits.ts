@@ -0,0 +1,138 @@
+import { ExchangeBroker } from './endpoints';
+
+export interface RateLimitBucket {
+  capacity: number;     // Weight the venue allows per interval
+  intervalMs: number;
+  perAccount: boolean;  // Counted per API key; otherwise shared by every account behind this IP
+}
+
+// Bucket name -> weight one request takes from it
+export type RequestWeights = Record<string, number>;
+
+export interface VenueRateLimits {
+  buckets: Record<string, RateLimitBucket>;
+  weigh: (method: string, path: string, params?: Record<string, any>) => RequestWeights;
+  // Remaining weight per bucket, where the venue reports it in response headers
+  readRemaining?: (headers: Record<string, any>, method: string, path: string) => Record<string, number>;
+  // How long a rate-limited response asks us to hold off
+  readRetryAfterMs?: (headers: Record<string, any>) => number | undefined;
+}
+
+const BINANCE_WEIGHTS: Record<string, number> = {
+  'GET /fapi/v2/account': 5,
+  'GET /fapi/v2/balance': 5,
+  'GET /fapi/v2/positionRisk': 5,
+  'GET /fapi/v1/order': 1,
+  'DELETE /fapi/v1/order': 1,
+  'GET /fapi/v1/userTrades': 5,
+  'GET /fapi/v1/exchangeInfo': 1,
+  'POST /fapi/v1/listenKey': 1,
+  'PUT /fapi/v1/listenKey': 1,
+  'DELETE /fapi/v1/listenKey': 1,
+};
+
+// Per-endpoint limits; a single bucket name per signed endpoint the adapter calls
+const endpointBuckets = (limits: Record<string, number>, intervalMs: number, perAccount: boolean): Record<string, RateLimitBucket> =>
+  Object.fromEntries(Object.entries(limits).map(([endpoint, capacity]) => [endpoint, { capacity, intervalMs, perAccount }]));
+
+const OKX_ACCOUNT_LIMITS = {
+  'GET /api/v5/account/config': 5,
+  'GET /api/v5/account/balance': 10,
+  'GET /api/v5/account/positions': 10,
+  'POST /api/v5/trade/order': 60,
+  'POST /api/v5/trade/cancel-order': 60,
+  'GET /api/v5/trade/order': 60,
+  'GET /api/v5/trade/orders-pending': 60,
+};
+
+const OKX_IP_LIMITS = {
+  'GET /api/v5/public/instruments': 20,
+  'GET /api/v5/market/ticker': 20,
+};
+
+const BYBIT_ACCOUNT_LIMITS = {
+  'POST /v5/order/create': 10,
+  'POST /v5/order/cancel': 10,
+  'GET /v5/order/realtime': 50,
+  'GET /v5/position/list': 50,
+  'GET /v5/account/wallet-balance': 50,
+  'GET /v5/account/info': 50,
+};
+
+export const RATE_LIMITS: Record<ExchangeBroker, VenueRateLimits> = {
+  BINANCE: {
+    buckets: {
+      weight: { capacity: 2400, intervalMs: 60 * 1000, perAccount: false },
+      orders10s: { capacity: 300, intervalMs: 10 * 1000, perAccount: true },
+      orders1m: { capacity: 1200, intervalMs: 60 * 1000, perAccount: true },
+    },
+    weigh: (method, path, params): RequestWeights => {
+      const endpoint = `${method} ${path}`;
+
+      // New orders cost no request weight but count against the order limits
+      if (endpoint === 'POST /fapi/v1/order') {
+        return { orders10s: 1, orders1m: 1 };
+      }
+      // Listing every symbol at once costs 40
+      if (endpoint === 'GET /fapi/v1/openOrders' || endpoint === 'GET /fapi/v1/ticker/24hr') {
+        return { weight: params?.symbol ? 1 : 40 };
+      }
+      return { weight: BINANCE_WEIGHTS[endpoint] ?? 1 };
+    },
+    readRemaining: (headers) => {
+      const remaining: Record<string, number> = {};
+      if (headers['x-mbx-used-weight-1m'] !== undefined) {
+        remaining.weight = 2400 - parseInt(headers['x-mbx-used-weight-1m']);
+      }
+      if (headers['x-mbx-order-count-10s'] !== undefined) {
+        remaining.orders10s = 300 - parseInt(headers['x-mbx-order-count-10s']);
+      }
+      if (headers['x-mbx-order-count-1m'] !== undefined) {
+        remaining.orders1m = 1200 - parseInt(headers['x-mbx-order-count-1m']);
+      }
+      return remaining;
+    },
+    readRetryAfterMs: (headers) => headers['retry-after'] !== undefined ? parseInt(headers['retry-after']) * 1000 : undefined,
+  },
+  BYBIT: {
+    buckets: {
+      ip: { capacity: 600, intervalMs: 5 * 1000, perAccount: false },
+      ...endpointBuckets(BYBIT_ACCOUNT_LIMITS, 1000, true),
+    },
+    weigh: (method, path) => {
+      const endpoint = `${method} ${path}`;
+      return endpoint in BYBIT_ACCOUNT_LIMITS ? { ip: 1, [endpoint]: 1 } : { ip: 1 };
+    },
+    readRemaining: (headers, method, path) => {
+      const endpoint = `${method} ${path}`;
+      const status = headers['x-bapi-limit-status'];
+      return status !== undefined && endpoint in BYBIT_ACCOUNT_LIMITS ? { [endpoint]: parseInt(status) } : {};
+    },
+  },
+  OKX: {
+    buckets: {
+      ...endpointBuckets(OKX_ACCOUNT_LIMITS, 2000, true),
+      ...endpointBuckets(OKX_IP_LIMITS, 2000, false),
+    },
+    weigh: (method, path) => {
+      const endpoint = `${method} ${path}`;
+      return endpoint in OKX_ACCOUNT_LIMITS || endpoint in OKX_IP_LIMITS ? { [endpoint]: 1 } : {};
+    },
+  },
+  DELTA: {
+    buckets: {
+      quota: { capacity: 10000, intervalMs: 5 * 60 * 1000, perAccount: true },
+    },
+    weigh: (method, path) => {
+      if (path === '/v2/products' || path.startsWith('/v2/tickers')) {
+        return { quota: 1 };
+      }
+      // Placing and cancelling cost more than reads
+      if (path.startsWith('/v2/orders') && method !== 'GET') {
+        return { quota: 5 };
+      }
+      return { quota: 3 };
+    },
+    readRetryAfterMs: (headers) => headers['x-rate-limit-reset'] !== undefined ? parseInt(headers['x-rate-limit-reset']) : undefined,
+  },
+};
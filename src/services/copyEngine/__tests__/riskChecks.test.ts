@@ -0,0 +1,98 @@
+import { Subscription } from '@prisma/client';
+import prisma from '../../../config/database';
+import { BaseBroker, Position } from '../../brokerIntegrations/baseBroker';
+import { calculateRealizedPnl } from '../positionPoller';
+import { runPreTradeChecks } from '../riskChecks';
+import { pauseSubscription } from '../subscriptionState';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { trade: { aggregate: jest.fn() } },
+}));
+
+jest.mock('../subscriptionState', () => ({
+  pauseSubscription: jest.fn(),
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const aggregate = prisma.trade.aggregate as unknown as jest.Mock;
+
+// Today's executed follower trades, as the realized pnl query sees them
+let executedTrades: { pnl: number }[] = [];
+
+const subscription = (dailyLossLimit: number): Subscription => ({
+  id: 'subscription-1',
+  followerAccountId: 'follower-1',
+  dailyLossLimit,
+  maxPositionSize: 0,
+} as unknown as Subscription);
+
+const brokerWith = (positions: Position[]): BaseBroker => ({
+  getPositions: jest.fn().mockResolvedValue(positions),
+} as unknown as BaseBroker);
+
+const entry = { symbol: 'BTCUSDT', side: 'buy' as const, quantity: 0.1, referencePrice: 59000 };
+
+beforeEach(() => {
+  executedTrades = [];
+  jest.clearAllMocks();
+  aggregate.mockImplementation(async () => ({
+    _sum: { pnl: executedTrades.reduce((sum, trade) => sum + trade.pnl, 0) },
+  }));
+});
+
+describe('calculateRealizedPnl', () => {
+  it('books the move from entry on the closed part of a long', () => {
+    expect(calculateRealizedPnl(1, 60000, { side: 'sell', quantity: 1, price: 59000 })).toBe(-1000);
+    expect(calculateRealizedPnl(1, 60000, { side: 'sell', quantity: 0.5, price: 61000 })).toBe(500);
+  });
+
+  it('books the move from entry on the closed part of a short', () => {
+    expect(calculateRealizedPnl(-2, 3000, { side: 'buy', quantity: 2, price: 3100 })).toBe(-200);
+  });
+
+  it('only books the closing leg of a flip', () => {
+    expect(calculateRealizedPnl(1, 60000, { side: 'sell', quantity: 3, price: 59000 })).toBe(-1000);
+  });
+
+  it('books nothing on entries', () => {
+    expect(calculateRealizedPnl(0, 0, { side: 'buy', quantity: 1, price: 60000 })).toBe(0);
+    expect(calculateRealizedPnl(1, 60000, { side: 'buy', quantity: 1, price: 59000 })).toBe(0);
+  });
+});
+
+describe('runPreTradeChecks daily loss limit', () => {
+  it('blocks the next entry once a closed loss reaches the limit', async () => {
+    executedTrades.push({ pnl: calculateRealizedPnl(1, 60000, { side: 'sell', quantity: 1, price: 59000 }) });
+
+    const result = await runPreTradeChecks(subscription(500), brokerWith([]), entry);
+
+    expect(result.approved).toBe(false);
+    expect(result.reason).toMatch(/Daily loss of 1000\.00/);
+    expect(pauseSubscription).toHaveBeenCalledWith(expect.objectContaining({ id: 'subscription-1' }), result.reason, 'RISK_LIMIT');
+    expect(aggregate).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ accountId: 'follower-1' }),
+    }));
+  });
+
+  it('allows entries while closed losses stay under the limit', async () => {
+    executedTrades.push({ pnl: -1000 });
+
+    const result = await runPreTradeChecks(subscription(2000), brokerWith([]), entry);
+
+    expect(result).toEqual({ approved: true, quantity: entry.quantity });
+    expect(pauseSubscription).not.toHaveBeenCalled();
+  });
+
+  it('lets exits through even past the limit', async () => {
+    executedTrades.push({ pnl: -5000 });
+    const long: Position = { symbol: 'BTCUSDT', side: 'long', size: 1, entryPrice: 60000, markPrice: 59000, pnl: -1000, percentage: -1.7 };
+
+    const result = await runPreTradeChecks(subscription(500), brokerWith([long]), { ...entry, side: 'sell' });
+
+    expect(result.approved).toBe(true);
+  });
+});
@@ -0,0 +1,155 @@
+import { ValidationError } from '../../../utils/errors';
+import { calculateFollowerQuantity, SizingConfig, SizingContext, validateSizingConfig } from '../sizing';
+
+const context = (overrides: Partial<SizingContext> = {}): SizingContext => ({
+  fill: { quantity: 2, price: 50000 },
+  masterEquity: 100000,
+  followerEquity: 10000,
+  ...overrides,
+});
+
+const config = (overrides: Partial<SizingConfig> = {}): SizingConfig => ({
+  sizingMode: 'MULTIPLIER',
+  multiplier: 1,
+  ...overrides,
+});
+
+const rejectedFields = (sizing: SizingConfig): string[] => {
+  try {
+    validateSizingConfig(sizing);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).details.map((detail: { field: string }) => detail.field);
+  }
+  return [];
+};
+
+describe('calculateFollowerQuantity', () => {
+  describe('MULTIPLIER', () => {
+    it('scales the master quantity', () => {
+      expect(calculateFollowerQuantity(config({ multiplier: 0.5 }), context())).toBe(1);
+    });
+
+    it('ignores equity', () => {
+      expect(calculateFollowerQuantity(config({ multiplier: 2 }), context({ followerEquity: 0 }))).toBe(4);
+    });
+  });
+
+  describe('EQUITY_PROPORTIONAL', () => {
+    const sizing = config({ sizingMode: 'EQUITY_PROPORTIONAL' });
+
+    it('scales by the follower to master equity ratio and the multiplier', () => {
+      expect(calculateFollowerQuantity(sizing, context())).toBeCloseTo(0.2);
+      expect(calculateFollowerQuantity({ ...sizing, multiplier: 3 }, context())).toBeCloseTo(0.6);
+    });
+
+    it('returns 0 when the follower has no balance', () => {
+      expect(calculateFollowerQuantity(sizing, context({ followerEquity: 0 }))).toBe(0);
+      expect(calculateFollowerQuantity(sizing, context({ followerEquity: NaN }))).toBe(0);
+    });
+
+    it('returns 0 when the master has no balance', () => {
+      expect(calculateFollowerQuantity(sizing, context({ masterEquity: 0 }))).toBe(0);
+      expect(calculateFollowerQuantity(sizing, context({ masterEquity: -500 }))).toBe(0);
+    });
+  });
+
+  describe('FIXED_NOTIONAL', () => {
+    it('buys the configured notional at the fill price', () => {
+      const sizing = config({ sizingMode: 'FIXED_NOTIONAL', fixedNotional: 1000 });
+      expect(calculateFollowerQuantity(sizing, context())).toBeCloseTo(0.02);
+    });
+
+    it('returns 0 without a notional or a fill price', () => {
+      expect(calculateFollowerQuantity(config({ sizingMode: 'FIXED_NOTIONAL' }), context())).toBe(0);
+      const sizing = config({ sizingMode: 'FIXED_NOTIONAL', fixedNotional: 1000 });
+      expect(calculateFollowerQuantity(sizing, context({ fill: { quantity: 2, price: 0 } }))).toBe(0);
+    });
+  });
+
+  describe('FIXED_QUANTITY', () => {
+    it('uses the configured quantity whatever the master traded', () => {
+      const sizing = config({ sizingMode: 'FIXED_QUANTITY', fixedQuantity: 0.3 });
+      expect(calculateFollowerQuantity(sizing, context())).toBe(0.3);
+      expect(calculateFollowerQuantity(sizing, context({ fill: { quantity: 50, price: 1 } }))).toBe(0.3);
+    });
+
+    it('returns 0 without a quantity', () => {
+      expect(calculateFollowerQuantity(config({ sizingMode: 'FIXED_QUANTITY', fixedQuantity: null }), context())).toBe(0);
+    });
+  });
+
+  describe('RISK_PERCENT', () => {
+    const sizing = config({ sizingMode: 'RISK_PERCENT', riskPercent: 1, stopLossPercent: 2 });
+
+    it('loses the risk percent of follower equity when the stop distance is hit', () => {
+      // 1% of 10000 at risk over a 2% stop at 50000 (1000 per unit)
+      const quantity = calculateFollowerQuantity(sizing, context());
+      expect(quantity).toBeCloseTo(0.1);
+      expect(quantity * 50000 * 0.02).toBeCloseTo(100);
+    });
+
+    it('sizes down as the stop widens', () => {
+      expect(calculateFollowerQuantity({ ...sizing, stopLossPercent: 4 }, context())).toBeCloseTo(0.05);
+    });
+
+    it('returns 0 when the follower has no balance', () => {
+      expect(calculateFollowerQuantity(sizing, context({ followerEquity: 0 }))).toBe(0);
+      expect(calculateFollowerQuantity(sizing, context({ followerEquity: undefined as unknown as number }))).toBe(0);
+    });
+
+    it('returns 0 without a risk percent, a stop distance or a fill price', () => {
+      expect(calculateFollowerQuantity({ ...sizing, riskPercent: null }, context())).toBe(0);
+      expect(calculateFollowerQuantity({ ...sizing, stopLossPercent: null }, context())).toBe(0);
+      expect(calculateFollowerQuantity(sizing, context({ fill: { quantity: 2, price: 0 } }))).toBe(0);
+    });
+  });
+});
+
+describe('validateSizingConfig', () => {
+  it('accepts a complete configuration for every mode', () => {
+    expect(() => validateSizingConfig(config())).not.toThrow();
+    expect(() => validateSizingConfig(config({ sizingMode: 'EQUITY_PROPORTIONAL' }))).not.toThrow();
+    expect(() => validateSizingConfig(config({ sizingMode: 'FIXED_NOTIONAL', fixedNotional: 100 }))).not.toThrow();
+    expect(() => validateSizingConfig(config({ sizingMode: 'FIXED_QUANTITY', fixedQuantity: 1 }))).not.toThrow();
+    expect(() => validateSizingConfig(config({ sizingMode: 'RISK_PERCENT', riskPercent: 100, stopLossPercent: 5 }))).not.toThrow();
+  });
+
+  it('rejects an unknown mode', () => {
+    expect(rejectedFields(config({ sizingMode: 'MARTINGALE' as SizingConfig['sizingMode'] }))).toEqual(['sizingMode']);
+  });
+
+  it('rejects a multiplier that is not positive', () => {
+    expect(rejectedFields(config({ multiplier: 0 }))).toEqual(['multiplier']);
+    expect(rejectedFields(config({ multiplier: -1 }))).toEqual(['multiplier']);
+    expect(rejectedFields(config({ multiplier: NaN }))).toEqual(['multiplier']);
+  });
+
+  it('requires a positive fixed notional', () => {
+    expect(rejectedFields(config({ sizingMode: 'FIXED_NOTIONAL' }))).toEqual(['fixedNotional']);
+    expect(rejectedFields(config({ sizingMode: 'FIXED_NOTIONAL', fixedNotional: 0 }))).toEqual(['fixedNotional']);
+  });
+
+  it('requires a positive fixed quantity', () => {
+    expect(rejectedFields(config({ sizingMode: 'FIXED_QUANTITY', fixedQuantity: null }))).toEqual(['fixedQuantity']);
+    expect(rejectedFields(config({ sizingMode: 'FIXED_QUANTITY', fixedQuantity: -2 }))).toEqual(['fixedQuantity']);
+  });
+
+  it('requires a risk percent between 0 and 100', () => {
+    const sizing = config({ sizingMode: 'RISK_PERCENT', stopLossPercent: 2 });
+    expect(rejectedFields(sizing)).toEqual(['riskPercent']);
+    expect(rejectedFields({ ...sizing, riskPercent: 0 })).toEqual(['riskPercent']);
+    expect(rejectedFields({ ...sizing, riskPercent: 101 })).toEqual(['riskPercent']);
+  });
+
+  it('requires a stop loss percent between 0 and 100', () => {
+    const sizing = config({ sizingMode: 'RISK_PERCENT', riskPercent: 1 });
+    expect(rejectedFields(sizing)).toEqual(['stopLossPercent']);
+    expect(rejectedFields({ ...sizing, stopLossPercent: 0 })).toEqual(['stopLossPercent']);
+    expect(rejectedFields({ ...sizing, stopLossPercent: 150 })).toEqual(['stopLossPercent']);
+  });
+
+  it('reports every invalid field at once', () => {
+    expect(rejectedFields(config({ sizingMode: 'FIXED_NOTIONAL', multiplier: 0 }))).toEqual(['multiplier', 'fixedNotional']);
+  });
+});
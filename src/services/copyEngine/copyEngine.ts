@@ -0,0 +1,648 @@
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { BrokerAccount, CopySkipCause, Subscription, Trade } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../../config/database';
+import { decryptApiKey } from '../../utils/encryption';
+import { logger } from '../../utils/logger';
+import { BaseBroker, Instrument, OrderFill, TradeOrder, TradeResult } from '../brokerIntegrations/baseBroker';
+import { BrokerFactory, SupportedBroker } from '../brokerIntegrations/brokerFactory';
+import { instrumentRegistry } from '../brokerIntegrations/instrumentRegistry';
+import { normalizeOrder } from '../brokerIntegrations/orderNormalizer';
+import { isFinalTradeStatus, orderTracker, placementFields } from '../orderTracker';
+import { broadcastTradeUpdate } from '../websocket';
+import { FollowerOrderJob, followerOrderQueue } from './orderQueue';
+import { applyFillToPosition, DetectedFill, PositionChange, positionPoller, upsertPositionRecord } from './positionPoller';
+import { driftReconciler } from './reconciler';
+import { calculateFollowerQuantity, toSizingConfig } from './sizing';
+import { runPreTradeChecks } from './riskChecks';
+import { describeSchedule, isWithinSchedule, TradingWindow } from './schedule';
+import { calculateSlippage, checkSlippage } from './slippage';
+import { checkSymbolFilter } from './symbolFilter';
+
+type SubscriptionWithAccounts = Subscription & { masterAccount: BrokerAccount; followerAccount: BrokerAccount };
+
+interface CopyContext {
+  subscription: SubscriptionWithAccounts;
+  masterTrade: Trade;
+  change: PositionChange;
+  broker: BaseBroker;
+  symbol: string;          // Follower venue symbol
+  instrument: Instrument;  // Follower venue instrument
+  clientOrderId?: string;
+}
+
+// Stable per job and leg, and within every exchange's client id rules
+const toClientOrderId = (job: FollowerOrderJob, leg: number): string =>
+  `${job.id.replace(/-/g, '').slice(0, 30)}${leg.toString().padStart(2, '0')}`;
+
+export class CopyEngine extends EventEmitter {
+  private masterBrokers: Map<string, BaseBroker> = new Map();
+  private fillListeners: Map<string, (fill: OrderFill) => void> = new Map();
+  private isRunning: boolean = false;
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+
+    // Symbol translation between master and follower venues
+    await instrumentRegistry.load();
+    instrumentRegistry.start();
+
+    // Follower orders fan out through Redis so one slow account cannot hold up the rest
+    await followerOrderQueue.start(this.processFollowerOrder);
+
+    // Snapshot diffs catch whatever the private streams miss
+    positionPoller.on('positionChange', this.handlePositionChange);
+    positionPoller.start();
+
+    // Most copies are still working when placeOrder returns; the tracker reports when they finish
+    orderTracker.on('orderCompleted', this.handleOrderCompleted);
+
+    // Catches whatever copying missed and, where enabled, trades the follower back in line
+    driftReconciler.start();
+
+    // Only watch masters that somebody is actually copying
+    const masterAccounts = await prisma.brokerAccount.findMany({
+      where: {
+        accountType: 'MASTER',
+        isActive: true,
+        masterSubscriptions: { some: { isActive: true } },
+      },
+    });
+
+    for (const account of masterAccounts) {
+      try {
+        await this.watchMasterAccount(account);
+      } catch (error) {
+        logger.error(`Copy engine failed to watch master account ${account.id}:`, error);
+      }
+    }
+
+    logger.info(`Copy engine started, watching ${this.masterBrokers.size} master accounts`);
+  }
+
+  async stop(): Promise<void> {
+    for (const accountId of Array.from(this.masterBrokers.keys())) {
+      this.unwatchMasterAccount(accountId);
+    }
+
+    positionPoller.off('positionChange', this.handlePositionChange);
+    positionPoller.stop();
+    orderTracker.off('orderCompleted', this.handleOrderCompleted);
+    driftReconciler.stop();
+    followerOrderQueue.stop();
+    instrumentRegistry.stop();
+
+    this.isRunning = false;
+    logger.info('Copy engine stopped');
+  }
+
+  async watchMasterAccount(account: BrokerAccount): Promise<void> {
+    if (this.masterBrokers.has(account.id)) {
+      return;
+    }
+
+    const broker = BrokerFactory.createAccountBroker(account);
+    if (!broker.getConnectionStatus()) {
+      await broker.connect();
+    }
+
+    const listener = (fill: OrderFill) => {
+      this.handleMasterFill(account.id, fill).catch((error) => {
+        logger.error(`Copy engine failed to process fill ${fill.orderId} on ${account.id}:`, error);
+      });
+    };
+
+    broker.on('fill', listener);
+    await broker.subscribeToUserData();
+    this.masterBrokers.set(account.id, broker);
+    this.fillListeners.set(account.id, listener);
+
+    await positionPoller.watch(account.id, broker);
+
+    logger.info(`Copy engine watching master account: ${account.name} (${account.broker})`);
+  }
+
+  unwatchMasterAccount(accountId: string): void {
+    const broker = this.masterBrokers.get(accountId);
+    const listener = this.fillListeners.get(accountId);
+
+    if (broker && listener) {
+      broker.off('fill', listener);
+      broker.unsubscribeFromUserData().catch((error) => {
+        logger.warn(`Failed to close user data stream for ${accountId}:`, error);
+      });
+    }
+
+    positionPoller.unwatch(accountId);
+    this.masterBrokers.delete(accountId);
+    this.fillListeners.delete(accountId);
+  }
+
+  isWatching(accountId: string): boolean {
+    return this.masterBrokers.has(accountId);
+  }
+
+  // Watch a master while anyone is actively copying it, and stop once nobody is
+  async syncMasterAccount(masterAccountId: string): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    const account = await prisma.brokerAccount.findUnique({ where: { id: masterAccountId } });
+    const activeSubscriptions = await prisma.subscription.count({
+      where: { masterAccountId, isActive: true },
+    });
+
+    if (account && account.isActive && activeSubscriptions > 0) {
+      await this.watchMasterAccount(account);
+    } else if (this.isWatching(masterAccountId)) {
+      this.unwatchMasterAccount(masterAccountId);
+      logger.info(`Copy engine stopped watching master account ${masterAccountId}`);
+    }
+  }
+
+  // Entry point for fills reported by a master's private stream
+  async handleMasterFill(masterAccountId: string, fill: OrderFill): Promise<void> {
+    const recorded = await positionPoller.runExclusive(masterAccountId, async () => {
+      if (positionPoller.absorbStreamFill(masterAccountId, fill)) {
+        return null;
+      }
+
+      const trade = await this.recordMasterTrade(masterAccountId, fill);
+      if (!trade) {
+        return null;
+      }
+
+      const { changes } = await applyFillToPosition(masterAccountId, fill);
+      return { trade, changes };
+    });
+
+    if (recorded) {
+      await this.copyMasterTrade(masterAccountId, recorded.trade, recorded.changes);
+    }
+  }
+
+  // Synthetic fills from the snapshot poller; the poller has already updated positions
+  private handlePositionChange = (masterAccountId: string, detected: DetectedFill): void => {
+    this.recordMasterTrade(masterAccountId, detected.fill)
+      .then(masterTrade => masterTrade && this.copyMasterTrade(masterAccountId, masterTrade, detected.changes))
+      .catch((error) => {
+        logger.error(`Copy engine failed to process snapshot change on ${masterAccountId}:`, error);
+      });
+  };
+
+  private handleOrderCompleted = (trade: Trade): void => {
+    if (!trade.isCopyTrade || !trade.masterTradeId) {
+      return;
+    }
+
+    this.recordFollowerFill(trade).catch((error) => {
+      logger.error(`Copy engine failed to record fill of follower trade ${trade.id}:`, error);
+    });
+  };
+
+  private async copyMasterTrade(masterAccountId: string, masterTrade: Trade, changes: PositionChange[]): Promise<void> {
+    const subscriptions = await prisma.subscription.findMany({
+      where: {
+        masterAccountId,
+        isActive: true,
+        followerAccount: { isActive: true },
+      },
+      include: { followerAccount: true },
+    });
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    logger.info(`Queueing ${masterTrade.side} ${masterTrade.quantity} ${masterTrade.symbol} (${changes.map(c => c.kind).join(', ')}) from master ${masterAccountId} for ${subscriptions.length} followers`);
+
+    const results = await Promise.allSettled(
+      subscriptions.map(subscription => followerOrderQueue.enqueue({
+        subscriptionId: subscription.id,
+        masterTradeId: masterTrade.id,
+        changes,
+        broker: subscription.followerAccount.broker,
+        apiKeyId: createHash('sha256').update(decryptApiKey(subscription.followerAccount.apiKey)).digest('hex').slice(0, 16),
+      }))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error(`Failed to queue copy for subscription ${subscriptions[index].id}:`, result.reason);
+      }
+    });
+  }
+
+  // Queue worker: copies one master fill to one subscription
+  private processFollowerOrder = async (job: FollowerOrderJob): Promise<void> => {
+    const [subscription, masterTrade] = await Promise.all([
+      prisma.subscription.findUnique({
+        where: { id: job.subscriptionId },
+        include: { masterAccount: true, followerAccount: true },
+      }),
+      prisma.trade.findUnique({ where: { id: job.masterTradeId } }),
+    ]);
+
+    if (!subscription || !masterTrade || !subscription.isActive || !subscription.followerAccount.isActive) {
+      logger.info(`Dropping follower order job ${job.id}: subscription or master trade no longer eligible`);
+      return;
+    }
+
+    // Legs of a flip must run in order: close first, then open
+    for (let leg = job.completedLegs; leg < job.changes.length; leg++) {
+      await this.copyToFollower(subscription, masterTrade, job.changes[leg], toClientOrderId(job, leg));
+      job.completedLegs = leg + 1;
+    }
+  };
+
+  private async recordMasterTrade(masterAccountId: string, fill: OrderFill): Promise<Trade | null> {
+    const brokerTradeId = fill.tradeId || fill.orderId;
+
+    // The same fill can be reported more than once (e.g. stream replay)
+    const existingTrade = await prisma.trade.findFirst({
+      where: {
+        accountId: masterAccountId,
+        brokerTradeId,
+      },
+    });
+
+    if (existingTrade) {
+      logger.debug(`Master fill ${brokerTradeId} already processed`);
+      return null;
+    }
+
+    const masterAccount = await prisma.brokerAccount.findUnique({
+      where: { id: masterAccountId },
+    });
+
+    if (!masterAccount) {
+      logger.warn(`Received fill for unknown master account ${masterAccountId}`);
+      return null;
+    }
+
+    const [masterTrade] = await prisma.$transaction([
+      prisma.trade.create({
+        data: {
+          userId: masterAccount.userId,
+          accountId: masterAccount.id,
+          symbol: fill.symbol,
+          side: fill.side === 'buy' ? 'BUY' : 'SELL',
+          quantity: fill.quantity,
+          price: fill.price,
+          executedPrice: fill.price,
+          status: 'EXECUTED',
+          brokerTradeId,
+          fees: fill.fee,
+          executedAt: fill.timestamp,
+        },
+      }),
+      prisma.brokerAccount.update({
+        where: { id: masterAccount.id },
+        data: { totalTrades: { increment: 1 } },
+      }),
+    ]);
+
+    return masterTrade;
+  }
+
+  private async copyToFollower(
+    subscription: SubscriptionWithAccounts,
+    masterTrade: Trade,
+    change: PositionChange,
+    clientOrderId?: string
+  ): Promise<Trade | null> {
+    const { fill } = change;
+    const follower = subscription.followerAccount;
+    const symbol = instrumentRegistry.translate(
+      subscription.masterAccount.broker as SupportedBroker,
+      fill.symbol,
+      follower.broker as SupportedBroker
+    );
+
+    if (!symbol) {
+      logger.warn(`Skipping copy of ${masterTrade.id} to ${follower.name}: no ${follower.broker} instrument for ${subscription.masterAccount.broker} ${fill.symbol}`);
+      return null;
+    }
+
+    const broker = BrokerFactory.createAccountBroker(follower);
+    const followerInstrument = await broker.getInstrument(symbol);
+
+    if (!followerInstrument) {
+      logger.warn(`Skipping copy of ${masterTrade.id} to ${follower.name}: no instrument metadata for ${follower.broker} ${symbol}`);
+      return null;
+    }
+
+    const context: CopyContext = { subscription, masterTrade, change, broker, symbol, instrument: followerInstrument, clientOrderId };
+
+    return change.kind === 'reduce' || change.kind === 'close'
+      ? this.copyExit(context)
+      : this.copyEntry(context);
+  }
+
+  private async copyEntry(context: CopyContext): Promise<Trade | null> {
+    const { subscription, masterTrade, change: { fill }, broker, symbol, instrument } = context;
+    const follower = subscription.followerAccount;
+
+    // Filters gate new exposure only, so positions opened before a list change can still be closed
+    const symbolFilter = checkSymbolFilter(subscription, [
+      fill.symbol,
+      symbol,
+      instrumentRegistry.toCanonical(subscription.masterAccount.broker as SupportedBroker, fill.symbol),
+    ]);
+
+    if (!symbolFilter.allowed) {
+      return this.rejectCopy(context, 'SYMBOL_FILTER', symbolFilter.reason!);
+    }
+
+    // Outside the trading schedule only exits are copied
+    if (subscription.tradingSchedule) {
+      const user = await prisma.user.findUnique({
+        where: { id: subscription.userId },
+        select: { timezone: true },
+      });
+
+      if (!isWithinSchedule(subscription.tradingSchedule, user?.timezone || 'UTC')) {
+        const reason = `Outside trading schedule (${describeSchedule(subscription.tradingSchedule as unknown as TradingWindow[])} ${user?.timezone || 'UTC'})`;
+        return this.rejectCopy(context, 'SCHEDULE', reason);
+      }
+    }
+
+    const masterBroker = BrokerFactory.createAccountBroker(subscription.masterAccount);
+    const masterInstrument = await masterBroker.getInstrument(fill.symbol);
+
+    // Size in base asset so contract-based and coin-based venues line up
+    const masterBaseQuantity = fill.quantity * (masterInstrument?.contractValue || 1);
+    const sizedQuantity = calculateFollowerQuantity(toSizingConfig(subscription), {
+      fill: { quantity: masterBaseQuantity, price: fill.price },
+      masterEquity: Number(subscription.masterAccount.balance),
+      followerEquity: Number(follower.balance),
+    });
+
+    if (sizedQuantity <= 0) {
+      logger.warn(`Skipping copy of ${masterTrade.id} to ${follower.name}: ${subscription.sizingMode} sizing produced no quantity`);
+      return null;
+    }
+
+    const riskCheck = await runPreTradeChecks(subscription, broker, {
+      symbol,
+      side: fill.side,
+      quantity: sizedQuantity,
+      referencePrice: fill.price,
+      contractValue: instrument.contractValue,
+    });
+
+    if (!riskCheck.approved) {
+      return this.rejectCopy(context, 'RISK_LIMIT', riskCheck.reason!);
+    }
+
+    // Entries chase the master only as far as the subscription's slippage tolerance
+    let limitPrice: number | undefined;
+    const maxSlippage = subscription.maxSlippage != null ? Number(subscription.maxSlippage) : null;
+
+    if (maxSlippage && maxSlippage > 0) {
+      const ticker = await broker.getMarketData(symbol);
+      const decision = checkSlippage(fill.side, fill.price, ticker.price, maxSlippage, subscription.slippageAction);
+
+      if (decision.action === 'skip') {
+        return this.rejectCopy(context, 'SLIPPAGE', decision.reason!);
+      }
+
+      limitPrice = decision.limitPrice;
+    }
+
+    const normalized = normalizeOrder(instrument, {
+      side: fill.side,
+      baseQuantity: riskCheck.quantity,
+      referencePrice: fill.price,
+      price: limitPrice,
+    });
+
+    if (!normalized.ok) {
+      return this.rejectCopy(context, 'ORDER_RULES', normalized.reason);
+    }
+
+    return this.executeFollowerOrder(context, normalized.order.price !== undefined
+      ? { symbol, side: fill.side, type: 'limit', quantity: normalized.order.quantity, price: normalized.order.price, timeInForce: 'IOC' }
+      : { symbol, side: fill.side, type: 'market', quantity: normalized.order.quantity });
+  }
+
+  // Exits take the master's share of its position off the follower's own position
+  private async copyExit(context: CopyContext): Promise<Trade | null> {
+    const { subscription, masterTrade, change, broker, symbol, instrument } = context;
+    const follower = subscription.followerAccount;
+
+    const positions = await broker.getPositions();
+    const position = positions.find(p => p.symbol === symbol);
+    const exitSide = position?.side === 'long' ? 'sell' : 'buy';
+
+    if (!position || position.size <= 0 || exitSide !== change.fill.side) {
+      logger.info(`Skipping ${change.kind} of ${masterTrade.id} for ${follower.name}: no matching ${symbol} position to reduce`);
+      return null;
+    }
+
+    const ratio = change.kind === 'close'
+      ? 1
+      : (Math.abs(change.previousSize) - Math.abs(change.currentSize)) / Math.abs(change.previousSize);
+
+    const normalized = ratio >= 1
+      ? { ok: true as const, order: { quantity: position.size } }
+      : normalizeOrder(instrument, {
+        side: exitSide,
+        baseQuantity: position.size * instrument.contractValue * ratio,
+        referencePrice: change.fill.price,
+        reduceOnly: true,
+      });
+
+    if (!normalized.ok) {
+      return this.rejectCopy(context, 'ORDER_RULES', normalized.reason);
+    }
+
+    const positionRecord = await upsertPositionRecord(follower.id, position);
+
+    return this.executeFollowerOrder(context, {
+      symbol,
+      side: exitSide,
+      type: 'market',
+      quantity: normalized.order.quantity,
+      reduceOnly: true,
+    }, positionRecord.id);
+  }
+
+  // Record a copy the subscription deliberately did not make
+  private async rejectCopy(context: CopyContext, cause: CopySkipCause, reason: string): Promise<null> {
+    const { subscription, masterTrade, change } = context;
+
+    logger.warn(`Skipping ${change.kind} of ${masterTrade.id} for ${subscription.followerAccount.name} (${cause}): ${reason}`);
+
+    try {
+      await prisma.copySkip.create({
+        data: {
+          subscriptionId: subscription.id,
+          masterTradeId: masterTrade.id,
+          symbol: change.fill.symbol,
+          side: change.fill.side === 'buy' ? 'BUY' : 'SELL',
+          cause,
+          reason,
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to record skipped copy of ${masterTrade.id} for subscription ${subscription.id}:`, error);
+    }
+
+    this.emit('copyRejected', subscription, masterTrade, reason);
+    return null;
+  }
+
+  private async executeFollowerOrder(context: CopyContext, order: TradeOrder, positionId?: string): Promise<Trade> {
+    const { subscription, masterTrade, change: { fill }, broker, clientOrderId } = context;
+    const follower = subscription.followerAccount;
+
+    const trade = await prisma.trade.create({
+      data: {
+        userId: subscription.userId,
+        accountId: follower.id,
+        subscriptionId: subscription.id,
+        positionId,
+        symbol: order.symbol,
+        side: order.side === 'buy' ? 'BUY' : 'SELL',
+        quantity: order.quantity,
+        price: fill.price,
+        isCopyTrade: true,
+        masterTradeId: masterTrade.id,
+      },
+    });
+
+    let result: TradeResult;
+    try {
+      result = await broker.placeOrder({ ...order, clientOrderId });
+    } catch (error) {
+      const failedTrade = await prisma.trade.update({
+        where: { id: trade.id },
+        data: { status: 'FAILED' },
+      });
+
+      broadcastTradeUpdate(failedTrade);
+      this.emit('copyFailed', failedTrade, error);
+
+      throw error;
+    }
+
+    // The order is live on the venue from here on, so later failures must neither fail the trade nor retry the job
+    let executedTrade: Trade;
+    try {
+      executedTrade = await prisma.trade.update({
+        where: { id: trade.id },
+        data: placementFields(result),
+      });
+    } catch (error) {
+      logger.error(`Failed to record placement of ${result.orderId} for trade ${trade.id}, leaving it to the order tracker:`, error);
+
+      // Tracked as still open, so the tracker's next poll writes the venue's view of it
+      const untrackedTrade = { ...trade, brokerTradeId: result.orderId, status: 'PENDING' as const };
+      orderTracker.track(untrackedTrade, broker);
+      return untrackedTrade;
+    }
+
+    try {
+      // Orders still working are followed to completion by the tracker, which reports back through orderCompleted
+      if (isFinalTradeStatus(executedTrade.status)) {
+        executedTrade = await this.recordFollowerFill(executedTrade);
+      } else {
+        orderTracker.track(executedTrade, broker, result);
+      }
+
+      await prisma.$transaction([
+        prisma.subscription.update({
+          where: { id: subscription.id },
+          data: { totalTrades: { increment: 1 } },
+        }),
+        prisma.brokerAccount.update({
+          where: { id: follower.id },
+          data: { totalTrades: { increment: 1 } },
+        }),
+        prisma.notification.create({
+          data: {
+            userId: subscription.userId,
+            type: 'TRADE_EXECUTED',
+            title: 'Trade Copied',
+            message: `${order.symbol} ${order.side.toUpperCase()} ${order.quantity}${order.reduceOnly ? ' (reduce-only)' : ''} copied to ${follower.name}`,
+            metadata: { tradeId: executedTrade.id, masterTradeId: masterTrade.id, subscriptionId: subscription.id },
+          },
+        }),
+      ]);
+    } catch (error) {
+      logger.error(`Copied trade ${masterTrade.id} to ${follower.name} but failed to record its follow-up:`, error);
+    }
+
+    broadcastTradeUpdate(executedTrade);
+    this.emit('tradeCopied', executedTrade);
+
+    logger.info(`Copied trade ${masterTrade.id} to follower ${follower.name}: ${order.side} ${order.quantity} ${order.symbol}`);
+    return executedTrade;
+  }
+
+  // Once a copy has filled: slippage and latency against the master's fill, the follower's position and any profit it booked
+  private async recordFollowerFill(trade: Trade): Promise<Trade> {
+    const filledQuantity = Number(trade.filledQuantity);
+    const executedPrice = Number(trade.executedPrice || 0);
+
+    if (filledQuantity <= 0) {
+      return trade;
+    }
+
+    const masterTrade = trade.masterTradeId
+      ? await prisma.trade.findUnique({ where: { id: trade.masterTradeId } })
+      : null;
+    const side = trade.side === 'BUY' ? 'buy' : 'sell';
+    const filledAt = trade.executedAt || trade.updatedAt;
+    const masterFilledAt = masterTrade?.executedAt || masterTrade?.createdAt;
+
+    const { realizedPnl } = await applyFillToPosition(trade.accountId, {
+      orderId: trade.brokerTradeId || trade.id,
+      symbol: trade.symbol,
+      side,
+      quantity: filledQuantity,
+      price: executedPrice || Number(trade.price),
+      timestamp: filledAt,
+    });
+
+    if (executedPrice <= 0) {
+      return trade;
+    }
+
+    // Exits count toward the subscription's daily loss limit through this pnl
+    const contractValue = realizedPnl !== 0 ? await this.getContractValue(trade) : 1;
+
+    // The trade's price is the master's fill price it was copied from
+    const measuredTrade = await prisma.trade.update({
+      where: { id: trade.id },
+      data: {
+        slippage: calculateSlippage(side, Number(trade.price), executedPrice),
+        executionTime: masterFilledAt ? Math.max(0, filledAt.getTime() - masterFilledAt.getTime()) : undefined,
+        pnl: realizedPnl * contractValue,
+      },
+    });
+
+    broadcastTradeUpdate(measuredTrade);
+    return measuredTrade;
+  }
+
+  // Base asset per unit of the trade's quantity on the follower's venue
+  private async getContractValue(trade: Trade): Promise<number> {
+    const account = await prisma.brokerAccount.findUnique({ where: { id: trade.accountId } });
+    if (!account) {
+      return 1;
+    }
+
+    const instrument = await BrokerFactory.createAccountBroker(account).getInstrument(trade.symbol);
+    return instrument?.contractValue || 1;
+  }
+}
+
+export const copyEngine = new CopyEngine();
@@ -0,0 +1,368 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { getRedisClient } from '../../config/redis';
+import { logger } from '../../utils/logger';
+import { BrokerError } from '../brokerIntegrations/baseBroker';
+import { PositionChange } from './positionPoller';
+
+const PENDING_KEY = 'copy:orders:pending';
+const PROCESSING_KEY = 'copy:orders:processing';
+const LEASES_KEY = 'copy:orders:leases';
+const DELAYED_KEY = 'copy:orders:delayed';
+const DEAD_LETTER_KEY = 'copy:orders:dead';
+const DEAD_LETTER_LIMIT = 1000;
+
+// One master fill copied to one subscription
+export interface FollowerOrderJob {
+  id: string;
+  subscriptionId: string;
+  masterTradeId: string;
+  changes: PositionChange[];
+  broker: string;          // Follower broker, for per-exchange concurrency
+  apiKeyId: string;        // Hash of the follower API key, for per-key concurrency
+  completedLegs: number;   // Legs already placed, so retries resume instead of repeating
+  attempts: number;
+  enqueuedAt: number;
+  lastError?: string;
+}
+
+export interface DeadLetter extends FollowerOrderJob {
+  failedAt: string;
+}
+
+export type FollowerOrderHandler = (job: FollowerOrderJob) => Promise<void>;
+
+// Every instance counts running jobs per broker and per API key from these lease sets, so limits hold across instances
+const ACTIVE_KEY_PREFIX = 'copy:orders:active:';
+// How far into the queue a claim looks past jobs whose broker or key is at its limit
+const CLAIM_SCAN_LIMIT = 200;
+
+// Shared by the scripts below: the clock and the lease sets a job counts against
+const SCRIPT_HELPERS = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local function activeKeys(raw, prefix)
+  local job = cjson.decode(raw)
+  return prefix .. 'broker:' .. job.broker, prefix .. 'key:' .. job.apiKeyId
+end
+`;
+
+// ARGV holds lease length, broker limit, key limit, scan limit and the active key prefix.
+// Takes the oldest job whose broker and API key have room, moving it to processing together with its leases,
+// so no instance can see it claimed but unleased
+const CLAIM_SCRIPT = `${SCRIPT_HELPERS}
+local candidates = redis.call('LRANGE', KEYS[1], -tonumber(ARGV[4]), -1)
+for i = #candidates, 1, -1 do
+  local raw = candidates[i]
+  local brokerKey, apiKey = activeKeys(raw, ARGV[5])
+  if redis.call('ZCOUNT', brokerKey, now, '+inf') < tonumber(ARGV[2])
+    and redis.call('ZCOUNT', apiKey, now, '+inf') < tonumber(ARGV[3]) then
+    local leaseUntil = now + tonumber(ARGV[1])
+    redis.call('LREM', KEYS[1], -1, raw)
+    redis.call('LPUSH', KEYS[2], raw)
+    redis.call('ZADD', KEYS[3], leaseUntil, raw)
+    redis.call('ZADD', brokerKey, leaseUntil, raw)
+    redis.call('ZADD', apiKey, leaseUntil, raw)
+    return raw
+  end
+end
+return false
+`;
+
+// ARGV holds lease length, the active key prefix, then the jobs still running; only extends leases nobody has reclaimed
+const RENEW_SCRIPT = `${SCRIPT_HELPERS}
+for i = 3, #ARGV do
+  local brokerKey, apiKey = activeKeys(ARGV[i], ARGV[2])
+  local leaseUntil = now + tonumber(ARGV[1])
+  if redis.call('ZADD', KEYS[1], 'XX', 'CH', leaseUntil, ARGV[i]) > 0 then
+    redis.call('ZADD', brokerKey, 'XX', leaseUntil, ARGV[i])
+    redis.call('ZADD', apiKey, 'XX', leaseUntil, ARGV[i])
+  end
+end
+return 0
+`;
+
+// Drops a settled job and its leases
+const FINISH_SCRIPT = `${SCRIPT_HELPERS}
+local brokerKey, apiKey = activeKeys(ARGV[1], ARGV[2])
+redis.call('LREM', KEYS[1], 1, ARGV[1])
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('ZREM', brokerKey, ARGV[1])
+redis.call('ZREM', apiKey, ARGV[1])
+return 0
+`;
+
+// Requeues processing jobs whose lease ran out, i.e. whose instance stopped renewing them
+const RECOVER_SCRIPT = `${SCRIPT_HELPERS}
+local expired = {}
+for _, raw in ipairs(redis.call('LRANGE', KEYS[1], 0, -1)) do
+  local leaseUntil = tonumber(redis.call('ZSCORE', KEYS[2], raw))
+  if not leaseUntil or leaseUntil < now then
+    table.insert(expired, raw)
+  end
+end
+for _, raw in ipairs(expired) do
+  local brokerKey, apiKey = activeKeys(raw, ARGV[1])
+  redis.call('ZREM', KEYS[2], raw)
+  redis.call('ZREM', brokerKey, raw)
+  redis.call('ZREM', apiKey, raw)
+  if redis.call('LREM', KEYS[1], 1, raw) > 0 then
+    redis.call('RPUSH', KEYS[3], raw)
+  end
+end
+return #expired
+`;
+
+// Dates do not survive the round trip through Redis
+const parseJob = (raw: string): FollowerOrderJob => {
+  const job = JSON.parse(raw) as FollowerOrderJob;
+  job.changes.forEach(change => {
+    change.fill.timestamp = new Date(change.fill.timestamp);
+  });
+  return job;
+};
+
+export class FollowerOrderQueue extends EventEmitter {
+  private handler: FollowerOrderHandler | null = null;
+  private active: number = 0;
+  private draining: boolean = false;
+  private drainRequested: boolean = false;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private leaseTimer: NodeJS.Timeout | null = null;
+  private held: Set<string> = new Set();  // Claimed jobs this instance holds leases on
+  // Per instance; the broker and API key limits are shared by every instance through Redis
+  private readonly concurrency = parseInt(process.env.COPY_QUEUE_CONCURRENCY || '50');
+  private readonly brokerConcurrency = parseInt(process.env.COPY_QUEUE_BROKER_CONCURRENCY || '10');
+  private readonly keyConcurrency = parseInt(process.env.COPY_QUEUE_KEY_CONCURRENCY || '2');
+  private readonly maxAttempts = parseInt(process.env.COPY_QUEUE_MAX_ATTEMPTS || '3');
+  private readonly retryDelayMs = parseInt(process.env.COPY_QUEUE_RETRY_DELAY || '1000');
+  private readonly leaseMs = parseInt(process.env.COPY_QUEUE_LEASE_MS || '30000');
+
+  async start(handler: FollowerOrderHandler): Promise<void> {
+    if (this.handler) {
+      return;
+    }
+
+    this.handler = handler;
+
+    // Other instances may be working jobs right now; only those whose lease lapsed are taken back
+    await this.recoverExpired();
+
+    // Also picks up jobs whose broker or key was busy on another instance
+    this.retryTimer = setInterval(() => {
+      this.promoteDelayed()
+        .then(() => this.drain())
+        .catch((error) => {
+          logger.error('Failed to promote delayed follower order jobs:', error);
+        });
+    }, 1000);
+
+    this.leaseTimer = setInterval(() => {
+      this.renewLeases()
+        .then(() => this.recoverExpired())
+        .catch((error) => {
+          logger.error('Failed to maintain follower order job leases:', error);
+        });
+    }, Math.max(1000, Math.floor(this.leaseMs / 3)));
+
+    logger.info(`Follower order queue started (concurrency ${this.concurrency}, per broker ${this.brokerConcurrency}, per API key ${this.keyConcurrency})`);
+    this.drain();
+  }
+
+  stop(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+
+    // In-flight jobs finish; queued ones wait in Redis for this or another instance
+    this.handler = null;
+  }
+
+  async enqueue(
+    job: Omit<FollowerOrderJob, 'id' | 'attempts' | 'completedLegs' | 'enqueuedAt'>
+  ): Promise<FollowerOrderJob> {
+    const queued: FollowerOrderJob = {
+      ...job,
+      id: randomUUID(),
+      completedLegs: 0,
+      attempts: 0,
+      enqueuedAt: Date.now(),
+    };
+
+    await getRedisClient().lPush(PENDING_KEY, JSON.stringify(queued));
+    this.drain();
+
+    return queued;
+  }
+
+  async getStats(): Promise<{ pending: number; processing: number; delayed: number; deadLetters: number; active: number }> {
+    const redis = getRedisClient();
+    const [pending, processing, delayed, deadLetters] = await Promise.all([
+      redis.lLen(PENDING_KEY),
+      redis.lLen(PROCESSING_KEY),
+      redis.zCard(DELAYED_KEY),
+      redis.lLen(DEAD_LETTER_KEY),
+    ]);
+
+    return { pending, processing, delayed, deadLetters, active: this.active };
+  }
+
+  async getDeadLetters(limit: number = 50): Promise<DeadLetter[]> {
+    const entries = await getRedisClient().lRange(DEAD_LETTER_KEY, 0, limit - 1);
+    return entries.map(raw => parseJob(raw) as DeadLetter);
+  }
+
+  // Put a dead-lettered job back on the queue with a fresh retry budget
+  async retryDeadLetter(jobId: string): Promise<boolean> {
+    const redis = getRedisClient();
+    const entries = await redis.lRange(DEAD_LETTER_KEY, 0, -1);
+    const raw = entries.find(entry => (JSON.parse(entry) as DeadLetter).id === jobId);
+
+    if (!raw || !(await redis.lRem(DEAD_LETTER_KEY, 1, raw))) {
+      return false;
+    }
+
+    const { failedAt, ...job } = JSON.parse(raw) as DeadLetter;
+    await redis.rPush(PENDING_KEY, JSON.stringify({ ...job, attempts: 0 }));
+    this.drain();
+
+    return true;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.draining = true;
+
+    try {
+      const redis = getRedisClient();
+      while (this.handler && this.active < this.concurrency) {
+        const handler = this.handler;
+        const raw = await redis.eval(CLAIM_SCRIPT, {
+          keys: [PENDING_KEY, PROCESSING_KEY, LEASES_KEY],
+          arguments: [
+            this.leaseMs.toString(),
+            this.brokerConcurrency.toString(),
+            this.keyConcurrency.toString(),
+            CLAIM_SCAN_LIMIT.toString(),
+            ACTIVE_KEY_PREFIX,
+          ],
+        }) as string | null;
+        if (!raw) {
+          break;
+        }
+
+        this.held.add(raw);
+        this.runClaimed(raw, handler);
+      }
+    } catch (error) {
+      logger.error('Follower order queue drain failed:', error);
+    } finally {
+      this.draining = false;
+
+      if (this.drainRequested) {
+        this.drainRequested = false;
+        this.drain();
+      }
+    }
+  }
+
+  // The claim already checked the broker and key limits
+  private runClaimed(raw: string, handler: FollowerOrderHandler): void {
+    const job = parseJob(raw);
+    this.active++;
+
+    this.run(job, raw, handler)
+      .catch((error) => {
+        logger.error(`Follower order job ${job.id} could not be settled:`, error);
+      })
+      .finally(() => {
+        this.active--;
+        this.drain();
+      });
+  }
+
+  private async run(job: FollowerOrderJob, raw: string, handler: FollowerOrderHandler): Promise<void> {
+    const redis = getRedisClient();
+    job.attempts++;
+
+    try {
+      await handler(job);
+      this.emit('completed', job);
+    } catch (error) {
+      job.lastError = error instanceof Error ? error.message : String(error);
+      const retryable = error instanceof BrokerError && error.retryable;
+
+      if (retryable && job.attempts < this.maxAttempts) {
+        const delayMs = this.retryDelayMs * 2 ** (job.attempts - 1);
+        await redis.zAdd(DELAYED_KEY, { score: Date.now() + delayMs, value: JSON.stringify(job) });
+        logger.warn(`Follower order job ${job.id} failed (${job.lastError}), retry ${job.attempts}/${this.maxAttempts - 1} in ${delayMs}ms`);
+      } else {
+        const deadLetter: DeadLetter = { ...job, failedAt: new Date().toISOString() };
+        await redis.multi()
+          .lPush(DEAD_LETTER_KEY, JSON.stringify(deadLetter))
+          .lTrim(DEAD_LETTER_KEY, 0, DEAD_LETTER_LIMIT - 1)
+          .exec();
+
+        logger.error(`Follower order job ${job.id} for subscription ${job.subscriptionId} dead-lettered after ${job.attempts} attempts: ${job.lastError}`);
+        this.emit('deadLettered', deadLetter, error);
+      }
+    } finally {
+      this.held.delete(raw);
+      await redis.eval(FINISH_SCRIPT, {
+        keys: [PROCESSING_KEY, LEASES_KEY],
+        arguments: [raw, ACTIVE_KEY_PREFIX],
+      });
+    }
+  }
+
+  private async renewLeases(): Promise<void> {
+    if (this.held.size === 0) {
+      return;
+    }
+
+    await getRedisClient().eval(RENEW_SCRIPT, {
+      keys: [LEASES_KEY],
+      arguments: [this.leaseMs.toString(), ACTIVE_KEY_PREFIX, ...Array.from(this.held)],
+    });
+  }
+
+  private async recoverExpired(): Promise<void> {
+    const recovered = Number(await getRedisClient().eval(RECOVER_SCRIPT, {
+      keys: [PROCESSING_KEY, LEASES_KEY, PENDING_KEY],
+      arguments: [ACTIVE_KEY_PREFIX],
+    }));
+
+    if (recovered > 0) {
+      logger.warn(`Requeued ${recovered} follower order jobs whose worker stopped renewing its lease`);
+      this.drain();
+    }
+  }
+
+  // Move retries whose backoff has elapsed to the front of the queue
+  private async promoteDelayed(): Promise<void> {
+    const redis = getRedisClient();
+    const due = await redis.zRangeByScore(DELAYED_KEY, 0, Date.now());
+
+    for (const raw of due) {
+      if (await redis.zRem(DELAYED_KEY, raw)) {
+        await redis.rPush(PENDING_KEY, raw);
+      }
+    }
+
+    if (due.length > 0) {
+      this.drain();
+    }
+  }
+}
+
+export const followerOrderQueue = new FollowerOrderQueue();
@@ -0,0 +1,384 @@
+import { EventEmitter } from 'events';
+import { Position as PositionRecord } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../../config/database';
+import { logger } from '../../utils/logger';
+import { BaseBroker, OrderFill, Position } from '../brokerIntegrations/baseBroker';
+
+export type PositionChangeKind = 'open' | 'increase' | 'reduce' | 'close';
+
+export interface PositionChange {
+  kind: PositionChangeKind;
+  symbol: string;
+  previousSize: number; // Signed: long > 0, short < 0
+  currentSize: number;
+  fill: OrderFill;      // Quantity is this leg's share of the fill
+}
+
+export interface AppliedFill {
+  changes: PositionChange[];
+  realizedPnl: number;  // Per unit of position size; multiply by the contract value for quote currency
+}
+
+export interface DetectedFill {
+  fill: OrderFill;
+  changes: PositionChange[];
+}
+
+const SIZE_EPSILON = 1e-9;
+
+// Net position size with direction, so opens, flips and closes share one code path
+const signedSize = (side: 'long' | 'short' | 'BUY' | 'SELL', size: number): number =>
+  side === 'long' || side === 'BUY' ? size : -size;
+
+const recordSize = (record?: PositionRecord): number =>
+  record && record.isOpen ? signedSize(record.side, Number(record.quantity)) : 0;
+
+export const classifyChange = (previousSize: number, currentSize: number): PositionChangeKind => {
+  if (Math.abs(previousSize) < SIZE_EPSILON) return 'open';
+  if (Math.abs(currentSize) < SIZE_EPSILON) return 'close';
+  return Math.abs(currentSize) > Math.abs(previousSize) ? 'increase' : 'reduce';
+};
+
+// Booked by the part of a fill that reduces the position, against the position's average entry
+export const calculateRealizedPnl = (
+  previousSize: number,
+  entryPrice: number,
+  fill: Pick<OrderFill, 'side' | 'quantity' | 'price'>
+): number => {
+  const fillSize = fill.side === 'buy' ? fill.quantity : -fill.quantity;
+  if (Math.abs(previousSize) < SIZE_EPSILON || previousSize * fillSize > 0) {
+    return 0;
+  }
+
+  const closedSize = Math.min(Math.abs(previousSize), fill.quantity);
+  return closedSize * (fill.price - entryPrice) * Math.sign(previousSize);
+};
+
+// Split a fill into position legs; a flip is a close followed by an open
+export const toPositionChanges = (fill: OrderFill, previousSize: number, currentSize: number): PositionChange[] => {
+  const legs: Array<[number, number]> = previousSize * currentSize < 0
+    ? [[previousSize, 0], [0, currentSize]]
+    : [[previousSize, currentSize]];
+
+  return legs.map(([from, to]) => ({
+    kind: classifyChange(from, to),
+    symbol: fill.symbol,
+    previousSize: from,
+    currentSize: to,
+    fill: { ...fill, quantity: Math.abs(to - from) },
+  }));
+};
+
+// Turn the difference between two net sizes into a synthetic fill
+export const diffSizes = (
+  symbol: string,
+  previousSize: number,
+  currentSize: number,
+  price: number
+): DetectedFill | null => {
+  if (Math.abs(currentSize - previousSize) < SIZE_EPSILON) {
+    return null;
+  }
+
+  const timestamp = new Date();
+  const syntheticId = `snapshot-${symbol}-${timestamp.getTime()}`;
+  const fill: OrderFill = {
+    orderId: syntheticId,
+    tradeId: syntheticId,
+    symbol,
+    side: currentSize > previousSize ? 'buy' : 'sell',
+    quantity: Math.abs(currentSize - previousSize),
+    price,
+    timestamp,
+  };
+
+  return { fill, changes: toPositionChanges(fill, previousSize, currentSize) };
+};
+
+const toPositionData = (position: Position, record?: PositionRecord) => ({
+  side: position.side === 'long' ? 'BUY' as const : 'SELL' as const,
+  quantity: position.size,
+  entryPrice: position.entryPrice,
+  currentPrice: position.markPrice,
+  pnl: position.pnl,
+  percentage: Number.isFinite(position.percentage) ? position.percentage : 0,
+  isOpen: true,
+  closedAt: null,
+  ...(!record?.isOpen && { openedAt: new Date() }),
+});
+
+// Mirror a live broker position into its Position row
+export const upsertPositionRecord = async (accountId: string, position: Position): Promise<PositionRecord> => {
+  const record = await prisma.position.findUnique({
+    where: { accountId_symbol: { accountId, symbol: position.symbol } },
+  });
+  const data = toPositionData(position, record || undefined);
+
+  return prisma.position.upsert({
+    where: { accountId_symbol: { accountId, symbol: position.symbol } },
+    update: data,
+    create: { accountId, symbol: position.symbol, ...data },
+  });
+};
+
+// Mirror a full broker snapshot: upsert what is open, close what is gone
+export const syncPositionRecords = async (
+  accountId: string,
+  positions: Position[],
+  records?: PositionRecord[]
+): Promise<void> => {
+  const existing = records || await prisma.position.findMany({ where: { accountId } });
+  const openSymbols = new Set(positions.map(position => position.symbol));
+  const now = new Date();
+
+  await prisma.$transaction([
+    ...positions.map(position => {
+      const data = toPositionData(position, existing.find(r => r.symbol === position.symbol));
+
+      return prisma.position.upsert({
+        where: { accountId_symbol: { accountId, symbol: position.symbol } },
+        update: data,
+        create: { accountId, symbol: position.symbol, ...data },
+      });
+    }),
+    prisma.position.updateMany({
+      where: {
+        accountId,
+        isOpen: true,
+        symbol: { notIn: Array.from(openSymbols) },
+      },
+      data: { isOpen: false, closedAt: now },
+    }),
+  ]);
+};
+
+// Apply a fill to the persisted position and report the legs it produced and the profit it booked
+export const applyFillToPosition = async (accountId: string, fill: OrderFill): Promise<AppliedFill> => {
+  const record = await prisma.position.findUnique({
+    where: { accountId_symbol: { accountId, symbol: fill.symbol } },
+  });
+
+  const previousSize = recordSize(record || undefined);
+  const currentSize = previousSize + (fill.side === 'buy' ? fill.quantity : -fill.quantity);
+  const changes = toPositionChanges(fill, previousSize, currentSize);
+  const realizedPnl = record ? calculateRealizedPnl(previousSize, Number(record.entryPrice), fill) : 0;
+
+  if (Math.abs(currentSize) < SIZE_EPSILON) {
+    if (record) {
+      await prisma.position.update({
+        where: { id: record.id },
+        data: { isOpen: false, closedAt: fill.timestamp, currentPrice: fill.price },
+      });
+    }
+    return { changes, realizedPnl };
+  }
+
+  const kind = previousSize * currentSize < 0 ? 'open' : classifyChange(previousSize, currentSize);
+  let entryPrice = record ? Number(record.entryPrice) : fill.price;
+
+  if (kind === 'open') {
+    entryPrice = fill.price;
+  } else if (kind === 'increase') {
+    entryPrice = (Math.abs(previousSize) * entryPrice + fill.quantity * fill.price) / Math.abs(currentSize);
+  }
+
+  const data = {
+    side: currentSize > 0 ? 'BUY' as const : 'SELL' as const,
+    quantity: Math.abs(currentSize),
+    entryPrice,
+    currentPrice: fill.price,
+    isOpen: true,
+    closedAt: null,
+    ...(kind === 'open' && { openedAt: fill.timestamp }),
+  };
+
+  await prisma.position.upsert({
+    where: { accountId_symbol: { accountId, symbol: fill.symbol } },
+    update: data,
+    create: { accountId, symbol: fill.symbol, ...data },
+  });
+
+  return { changes, realizedPnl };
+};
+
+export class PositionPoller extends EventEmitter {
+  private brokers: Map<string, BaseBroker> = new Map();
+  private reconnectListeners: Map<string, () => void> = new Map();
+  private locks: Map<string, Promise<unknown>> = new Map();
+  private lastStreamFillAt: Map<string, number> = new Map();
+  private snapshotFills: Map<string, { quantity: number; expiresAt: number }> = new Map();
+  private pendingBaselines: Set<string> = new Set();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private readonly quietPeriodMs = parseInt(process.env.POSITION_POLL_QUIET_PERIOD || '5000');
+
+  start(intervalMs: number = parseInt(process.env.POSITION_POLL_INTERVAL || '15000')): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(async () => {
+      for (const accountId of Array.from(this.brokers.keys())) {
+        try {
+          await this.syncAccount(accountId);
+        } catch (error) {
+          logger.error(`Position poll failed for master account ${accountId}:`, error);
+        }
+      }
+    }, intervalMs);
+
+    logger.info(`Position poller started with ${intervalMs}ms interval`);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    for (const accountId of Array.from(this.brokers.keys())) {
+      this.unwatch(accountId);
+    }
+  }
+
+  async watch(accountId: string, broker: BaseBroker): Promise<void> {
+    if (this.brokers.has(accountId)) {
+      return;
+    }
+
+    // A fresh private stream may have missed fills while it was down
+    const onReconnect = () => {
+      this.syncAccount(accountId, true).catch((error) => {
+        logger.error(`Gap fill after stream reconnect failed for ${accountId}:`, error);
+      });
+    };
+
+    broker.on('userDataConnected', onReconnect);
+    this.brokers.set(accountId, broker);
+    this.reconnectListeners.set(accountId, onReconnect);
+    this.pendingBaselines.add(accountId);
+
+    await this.syncAccount(accountId, true);
+  }
+
+  unwatch(accountId: string): void {
+    const broker = this.brokers.get(accountId);
+    const listener = this.reconnectListeners.get(accountId);
+
+    if (broker && listener) {
+      broker.off('userDataConnected', listener);
+    }
+
+    this.brokers.delete(accountId);
+    this.reconnectListeners.delete(accountId);
+    this.lastStreamFillAt.delete(accountId);
+    this.pendingBaselines.delete(accountId);
+  }
+
+  // Serialize position bookkeeping per account between the stream and the poller
+  async runExclusive<T>(accountId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(accountId) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.locks.set(accountId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(accountId) === current) {
+        this.locks.delete(accountId);
+      }
+    }
+  }
+
+  // Returns true when a snapshot already produced this fill, so the stream copy must be skipped
+  absorbStreamFill(accountId: string, fill: OrderFill): boolean {
+    this.lastStreamFillAt.set(accountId, Date.now());
+
+    const key = `${accountId}:${fill.symbol}:${fill.side}`;
+    const pending = this.snapshotFills.get(key);
+    if (!pending || pending.expiresAt < Date.now()) {
+      this.snapshotFills.delete(key);
+      return false;
+    }
+
+    pending.quantity -= fill.quantity;
+    if (pending.quantity <= SIZE_EPSILON) {
+      this.snapshotFills.delete(key);
+    }
+
+    logger.info(`Stream fill ${fill.orderId} on ${accountId} already covered by snapshot diff`);
+    return true;
+  }
+
+  async syncAccount(accountId: string, force: boolean = false): Promise<DetectedFill[]> {
+    const broker = this.brokers.get(accountId);
+    if (!broker) {
+      return [];
+    }
+
+    // While the stream is delivering fills, let it settle before second-guessing it
+    const lastFill = this.lastStreamFillAt.get(accountId) || 0;
+    if (!force && Date.now() - lastFill < this.quietPeriodMs) {
+      return [];
+    }
+
+    const detectedFills = await this.runExclusive(accountId, async () => {
+      const [positions, records] = await Promise.all([
+        broker.getPositions(),
+        prisma.position.findMany({ where: { accountId } }),
+      ]);
+
+      const detected = this.diffSnapshot(positions, records);
+      await syncPositionRecords(accountId, positions, records);
+
+      // First sight of an account only establishes the baseline
+      const isBaseline = this.pendingBaselines.delete(accountId) && records.length === 0;
+      if (isBaseline) {
+        return [];
+      }
+
+      detected.forEach(({ fill }) => {
+        const key = `${accountId}:${fill.symbol}:${fill.side}`;
+        const pending = this.snapshotFills.get(key);
+        this.snapshotFills.set(key, {
+          quantity: (pending?.quantity || 0) + fill.quantity,
+          expiresAt: Date.now() + this.quietPeriodMs * 2,
+        });
+      });
+
+      return detected;
+    });
+
+    for (const detected of detectedFills) {
+      const summary = detected.changes.map(change => `${change.kind} ${change.previousSize} -> ${change.currentSize}`).join(', ');
+      logger.info(`Snapshot diff on ${accountId} ${detected.fill.symbol}: ${summary}`);
+      this.emit('positionChange', accountId, detected);
+    }
+
+    return detectedFills;
+  }
+
+  private diffSnapshot(positions: Position[], records: PositionRecord[]): DetectedFill[] {
+    const recordsBySymbol = new Map(records.map(record => [record.symbol, record]));
+    const positionsBySymbol = new Map(positions.map(position => [position.symbol, position]));
+    const symbols = new Set([...recordsBySymbol.keys(), ...positionsBySymbol.keys()]);
+    const detected: DetectedFill[] = [];
+
+    symbols.forEach(symbol => {
+      const record = recordsBySymbol.get(symbol);
+      const position = positionsBySymbol.get(symbol);
+      const previousSize = recordSize(record);
+      const currentSize = position ? signedSize(position.side, position.size) : 0;
+      const price = position?.markPrice || Number(record?.currentPrice) || Number(record?.entryPrice) || 0;
+
+      const diff = diffSizes(symbol, previousSize, currentSize, price);
+      if (diff) {
+        detected.push(diff);
+      }
+    });
+
+    return detected;
+  }
+}
+
+export const positionPoller = new PositionPoller();
@@ -0,0 +1,461 @@
+import { BrokerAccount, Subscription } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../../config/database';
+import { getCache, setCache } from '../../config/redis';
+import { logger } from '../../utils/logger';
+import { BaseBroker, Instrument, Position } from '../brokerIntegrations/baseBroker';
+import { BrokerFactory, SupportedBroker } from '../brokerIntegrations/brokerFactory';
+import { instrumentRegistry } from '../brokerIntegrations/instrumentRegistry';
+import { normalizeOrder } from '../brokerIntegrations/orderNormalizer';
+import { orderTracker, placementFields } from '../orderTracker';
+import { broadcastTradeUpdate } from '../websocket';
+import { positionPoller, syncPositionRecords } from './positionPoller';
+import { runPreTradeChecks } from './riskChecks';
+import { isWithinSchedule } from './schedule';
+import { calculateFollowerQuantity, SizingConfig, toSizingConfig } from './sizing';
+import { checkSymbolFilter } from './symbolFilter';
+
+type SubscriptionWithAccounts = Subscription & { masterAccount: BrokerAccount; followerAccount: BrokerAccount };
+
+// Unmanaged positions were not built by this subscription, so they are reported but never corrected
+export type DriftStatus = 'in_sync' | 'drifted' | 'filtered' | 'unmapped' | 'unmanaged';
+
+export interface SymbolDrift {
+  masterSymbol: string;
+  followerSymbol: string | null;
+  masterSize: number;     // Signed base asset size; negative is short
+  targetSize: number;     // What the sizing rule says the follower should hold
+  followerSize: number;
+  drift: number;          // followerSize - targetSize
+  driftPercent: number;   // Relative to the target, 100 when the follower should be flat
+  status: DriftStatus;
+  correction?: {
+    side: 'buy' | 'sell';
+    quantity: number;
+    status: 'placed' | 'skipped' | 'failed';
+    tradeId?: string;
+    reason?: string;
+  };
+}
+
+export interface DriftReport {
+  subscriptionId: string;
+  checkedAt: Date;
+  autoRebalance: boolean;
+  threshold: number;
+  symbols: SymbolDrift[];
+  error?: string;
+}
+
+const SIZE_EPSILON = 1e-9;
+const PROPORTIONAL_MODES = ['MULTIPLIER', 'EQUITY_PROPORTIONAL'];
+
+const driftCacheKey = (subscriptionId: string): string => `drift:${subscriptionId}`;
+
+const signedBaseSize = (position: Position, instrument?: Instrument): number =>
+  (position.side === 'long' ? 1 : -1) * position.size * (instrument?.contractValue || 1);
+
+// Proportional modes scale the whole master position. Per-trade modes have no position-level
+// equivalent, so they only require the follower to be open in the master's direction.
+const targetFollowerSize = (
+  config: SizingConfig,
+  masterSize: number,
+  followerSize: number,
+  price: number,
+  masterEquity: number,
+  followerEquity: number
+): number => {
+  if (Math.abs(masterSize) < SIZE_EPSILON) {
+    return 0;
+  }
+
+  const direction = Math.sign(masterSize);
+  if (!PROPORTIONAL_MODES.includes(config.sizingMode) && Math.sign(followerSize) === direction) {
+    return followerSize;
+  }
+
+  return direction * calculateFollowerQuantity(config, {
+    fill: { quantity: Math.abs(masterSize), price },
+    masterEquity,
+    followerEquity,
+  });
+};
+
+export class DriftReconciler {
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  // Drift seen on the previous pass; corrections need two passes in a row so in-flight copies can land
+  private pendingDrift: Map<string, number> = new Map();
+  private readonly intervalMs = parseInt(process.env.RECONCILE_INTERVAL || '300000');
+
+  start(intervalMs: number = this.intervalMs): void {
+    if (this.reconcileTimer) {
+      return;
+    }
+
+    this.reconcileTimer = setInterval(() => {
+      this.reconcileAll().catch((error) => {
+        logger.error('Drift reconciliation pass failed:', error);
+      });
+    }, intervalMs);
+
+    logger.info(`Drift reconciler started with ${intervalMs}ms interval`);
+  }
+
+  stop(): void {
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+    this.pendingDrift.clear();
+  }
+
+  async reconcileAll(): Promise<void> {
+    const subscriptions = await prisma.subscription.findMany({
+      where: { isActive: true },
+      include: { masterAccount: true, followerAccount: true },
+    });
+
+    for (const subscription of subscriptions) {
+      try {
+        await this.reconcile(subscription, subscription.autoRebalance);
+      } catch (error) {
+        logger.error(`Drift reconciliation failed for subscription ${subscription.id}:`, error);
+      }
+    }
+  }
+
+  // Last report from the periodic job, if it has run since the cache expired
+  async getLastReport(subscriptionId: string): Promise<DriftReport | null> {
+    return getCache(driftCacheKey(subscriptionId));
+  }
+
+  async reconcile(subscription: SubscriptionWithAccounts, correct: boolean = false): Promise<DriftReport> {
+    const report: DriftReport = {
+      subscriptionId: subscription.id,
+      checkedAt: new Date(),
+      autoRebalance: subscription.autoRebalance,
+      threshold: Number(subscription.rebalanceThreshold),
+      symbols: [],
+    };
+
+    try {
+      // Master bookkeeping holds this lock, so a half-copied fill is never mistaken for drift
+      report.symbols = await positionPoller.runExclusive(subscription.masterAccountId, () =>
+        this.measureDrift(subscription)
+      );
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+      logger.warn(`Could not measure drift for subscription ${subscription.id}: ${report.error}`);
+    }
+
+    if (correct && !report.error) {
+      await this.correctDrift(subscription, report);
+    }
+
+    await setCache(driftCacheKey(subscription.id), report, Math.ceil(this.intervalMs / 1000) * 2);
+    return report;
+  }
+
+  private async measureDrift(subscription: SubscriptionWithAccounts): Promise<SymbolDrift[]> {
+    const { masterAccount, followerAccount } = subscription;
+    const masterBrokerType = masterAccount.broker as SupportedBroker;
+    const followerBrokerType = followerAccount.broker as SupportedBroker;
+    const masterBroker = BrokerFactory.createAccountBroker(masterAccount);
+    const followerBroker = BrokerFactory.createAccountBroker(followerAccount);
+
+    const [masterPositions, followerPositions] = await Promise.all([
+      masterBroker.getPositions(),
+      followerBroker.getPositions(),
+    ]);
+
+    const config = toSizingConfig(subscription);
+    const threshold = Number(subscription.rebalanceThreshold);
+    const unmatchedFollower = new Map(followerPositions.map(position => [position.symbol, position]));
+    const results: SymbolDrift[] = [];
+
+    for (const masterPosition of masterPositions) {
+      const followerSymbol = instrumentRegistry.translate(masterBrokerType, masterPosition.symbol, followerBrokerType);
+      const masterInstrument = await masterBroker.getInstrument(masterPosition.symbol);
+      const masterSize = signedBaseSize(masterPosition, masterInstrument);
+
+      if (!followerSymbol) {
+        results.push({
+          masterSymbol: masterPosition.symbol,
+          followerSymbol: null,
+          masterSize,
+          targetSize: 0,
+          followerSize: 0,
+          drift: 0,
+          driftPercent: 0,
+          status: 'unmapped',
+        });
+        continue;
+      }
+
+      const followerPosition = unmatchedFollower.get(followerSymbol);
+      unmatchedFollower.delete(followerSymbol);
+
+      const followerInstrument = await followerBroker.getInstrument(followerSymbol);
+      const followerSize = followerPosition ? signedBaseSize(followerPosition, followerInstrument) : 0;
+      const targetSize = targetFollowerSize(
+        config,
+        masterSize,
+        followerSize,
+        masterPosition.markPrice || masterPosition.entryPrice,
+        Number(masterAccount.balance),
+        Number(followerAccount.balance)
+      );
+
+      const filter = checkSymbolFilter(subscription, [
+        masterPosition.symbol,
+        followerSymbol,
+        instrumentRegistry.toCanonical(masterBrokerType, masterPosition.symbol),
+      ]);
+
+      results.push(this.toSymbolDrift(masterPosition.symbol, followerSymbol, masterSize, targetSize, followerSize, threshold, filter.allowed));
+    }
+
+    // Follower positions the subscription built on instruments the master no longer holds should be flat;
+    // the rest were opened on the follower account by hand and are left alone
+    const copiedSymbols = unmatchedFollower.size > 0 ? await this.getCopiedSymbols(subscription.id) : new Set<string>();
+
+    for (const followerPosition of Array.from(unmatchedFollower.values())) {
+      const masterSymbol = instrumentRegistry.translate(followerBrokerType, followerPosition.symbol, masterBrokerType);
+      if (!masterSymbol) {
+        continue;
+      }
+
+      const followerInstrument = await followerBroker.getInstrument(followerPosition.symbol);
+      const followerSize = signedBaseSize(followerPosition, followerInstrument);
+      const drift = this.toSymbolDrift(masterSymbol, followerPosition.symbol, 0, 0, followerSize, threshold, true);
+
+      if (!copiedSymbols.has(followerPosition.symbol)) {
+        drift.status = 'unmanaged';
+      }
+      results.push(drift);
+    }
+
+    return results;
+  }
+
+  // Follower symbols this subscription has filled copies on
+  private async getCopiedSymbols(subscriptionId: string): Promise<Set<string>> {
+    const trades = await prisma.trade.findMany({
+      where: {
+        subscriptionId,
+        isCopyTrade: true,
+        filledQuantity: { gt: 0 },
+      },
+      select: { symbol: true },
+      distinct: ['symbol'],
+    });
+
+    return new Set(trades.map(trade => trade.symbol));
+  }
+
+  private toSymbolDrift(
+    masterSymbol: string,
+    followerSymbol: string,
+    masterSize: number,
+    targetSize: number,
+    followerSize: number,
+    threshold: number,
+    allowed: boolean
+  ): SymbolDrift {
+    const drift = followerSize - targetSize;
+    const driftPercent = Math.abs(targetSize) > SIZE_EPSILON
+      ? Math.abs(drift) / Math.abs(targetSize) * 100
+      : Math.abs(drift) > SIZE_EPSILON ? 100 : 0;
+
+    return {
+      masterSymbol,
+      followerSymbol,
+      masterSize,
+      targetSize,
+      followerSize,
+      drift,
+      driftPercent: parseFloat(driftPercent.toFixed(4)),
+      status: !allowed ? 'filtered' : driftPercent > threshold ? 'drifted' : 'in_sync',
+    };
+  }
+
+  private async correctDrift(subscription: SubscriptionWithAccounts, report: DriftReport): Promise<void> {
+    const { followerAccount } = subscription;
+    const seen = new Set<string>();
+
+    // Two masters trading the same instrument into one follower would fight over it
+    const followerSubscriptions = await prisma.subscription.count({
+      where: { followerAccountId: followerAccount.id, isActive: true },
+    });
+
+    const broker = BrokerFactory.createAccountBroker(followerAccount);
+    let placed = 0;
+
+    for (const entry of report.symbols) {
+      if (entry.status !== 'drifted' || !entry.followerSymbol) {
+        continue;
+      }
+
+      const key = `${subscription.id}:${entry.followerSymbol}`;
+      const previous = this.pendingDrift.get(key);
+      seen.add(key);
+      this.pendingDrift.set(key, entry.drift);
+
+      const side = entry.drift > 0 ? 'sell' : 'buy';
+      entry.correction = { side, quantity: 0, status: 'skipped' };
+
+      if (followerSubscriptions > 1) {
+        entry.correction.reason = 'Follower account copies more than one master';
+        continue;
+      }
+
+      if (previous === undefined || Math.sign(previous) !== Math.sign(entry.drift)) {
+        entry.correction.reason = 'Waiting for the drift to persist into the next pass';
+        continue;
+      }
+
+      try {
+        const tradeId = await this.placeCorrection(subscription, broker, entry, side);
+        entry.correction.status = tradeId ? 'placed' : 'skipped';
+        entry.correction.tradeId = tradeId || undefined;
+        if (tradeId) {
+          placed++;
+          this.pendingDrift.delete(key);
+        }
+      } catch (error) {
+        entry.correction.status = 'failed';
+        entry.correction.reason = error instanceof Error ? error.message : String(error);
+        logger.error(`Drift correction for ${entry.followerSymbol} on ${followerAccount.name} failed:`, error);
+      }
+    }
+
+    for (const key of Array.from(this.pendingDrift.keys())) {
+      if (key.startsWith(`${subscription.id}:`) && !seen.has(key)) {
+        this.pendingDrift.delete(key);
+      }
+    }
+
+    if (placed > 0) {
+      await syncPositionRecords(followerAccount.id, await broker.getPositions());
+    }
+  }
+
+  // Returns the trade id, or null when the correction was skipped (reason set on the entry)
+  private async placeCorrection(
+    subscription: SubscriptionWithAccounts,
+    broker: BaseBroker,
+    entry: SymbolDrift,
+    side: 'buy' | 'sell'
+  ): Promise<string | null> {
+    const symbol = entry.followerSymbol!;
+    const correction = entry.correction!;
+    const instrument = await broker.getInstrument(symbol);
+
+    if (!instrument) {
+      correction.reason = `No instrument metadata for ${symbol}`;
+      return null;
+    }
+
+    // Shrinking toward flat without crossing it is an exit; anything else adds exposure
+    const reduceOnly = Math.sign(entry.targetSize) !== -Math.sign(entry.followerSize)
+      && Math.abs(entry.targetSize) < Math.abs(entry.followerSize);
+
+    const ticker = await broker.getMarketData(symbol);
+    let baseQuantity = Math.abs(entry.drift);
+
+    if (!reduceOnly) {
+      if (subscription.tradingSchedule) {
+        const user = await prisma.user.findUnique({
+          where: { id: subscription.userId },
+          select: { timezone: true },
+        });
+
+        if (!isWithinSchedule(subscription.tradingSchedule, user?.timezone || 'UTC')) {
+          correction.reason = 'Outside trading schedule';
+          return null;
+        }
+      }
+
+      const riskCheck = await runPreTradeChecks(subscription, broker, {
+        symbol,
+        side,
+        quantity: baseQuantity,
+        referencePrice: ticker.price,
+        contractValue: instrument.contractValue,
+      });
+
+      if (!riskCheck.approved) {
+        correction.reason = riskCheck.reason;
+        return null;
+      }
+
+      baseQuantity = riskCheck.quantity;
+    }
+
+    const normalized = normalizeOrder(instrument, {
+      side,
+      baseQuantity,
+      referencePrice: ticker.price,
+      reduceOnly,
+    });
+
+    if (!normalized.ok) {
+      correction.reason = normalized.reason;
+      return null;
+    }
+
+    correction.quantity = normalized.order.quantity;
+
+    const trade = await prisma.trade.create({
+      data: {
+        userId: subscription.userId,
+        accountId: subscription.followerAccountId,
+        subscriptionId: subscription.id,
+        symbol,
+        side: side === 'buy' ? 'BUY' : 'SELL',
+        quantity: normalized.order.quantity,
+        price: ticker.price,
+        isCopyTrade: true,
+      },
+    });
+
+    try {
+      const result = await broker.placeOrder({
+        symbol,
+        side,
+        type: 'market',
+        quantity: normalized.order.quantity,
+        reduceOnly,
+      });
+
+      const executedTrade = await prisma.trade.update({
+        where: { id: trade.id },
+        data: placementFields(result),
+      });
+
+      orderTracker.track(executedTrade, broker, result);
+
+      await prisma.notification.create({
+        data: {
+          userId: subscription.userId,
+          type: 'TRADE_EXECUTED',
+          title: 'Position Rebalanced',
+          message: `${symbol} ${side.toUpperCase()} ${normalized.order.quantity} placed on ${subscription.followerAccount.name} to correct ${entry.driftPercent}% drift from its master`,
+          metadata: { tradeId: executedTrade.id, subscriptionId: subscription.id },
+        },
+      });
+
+      broadcastTradeUpdate(executedTrade);
+      logger.info(`Rebalanced ${symbol} on ${subscription.followerAccount.name}: ${side} ${normalized.order.quantity} (drift ${entry.drift})`);
+      return executedTrade.id;
+    } catch (error) {
+      await prisma.trade.update({
+        where: { id: trade.id },
+        data: { status: 'FAILED' },
+      });
+      throw error;
+    }
+  }
+}
+
+export const driftReconciler = new DriftReconciler();
@@ -0,0 +1,89 @@
+import { Subscription } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../../config/database';
+import { logger } from '../../utils/logger';
+import { BaseBroker, Position } from '../brokerIntegrations/baseBroker';
+import { pauseSubscription } from './subscriptionState';
+
+export interface RiskCheckOrder {
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;       // In base asset
+  referencePrice: number;
+  contractValue?: number; // Base asset per position unit on the follower's venue
+}
+
+export interface RiskCheckResult {
+  approved: boolean;
+  quantity: number;
+  reason?: string;
+}
+
+const startOfUtcDay = (date: Date = new Date()): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Orders that shrink an existing position are exits and are never blocked
+const isReducing = (position: Position | undefined, side: 'buy' | 'sell'): boolean =>
+  !!position && ((position.side === 'long' && side === 'sell') || (position.side === 'short' && side === 'buy'));
+
+export const getDailyPnL = async (subscription: Subscription, positions: Position[]): Promise<number> => {
+  const realized = await prisma.trade.aggregate({
+    where: {
+      accountId: subscription.followerAccountId,
+      // Exits cancelled after a partial fill still booked their share
+      status: { in: ['EXECUTED', 'CANCELLED'] },
+      executedAt: { gte: startOfUtcDay() },
+    },
+    _sum: { pnl: true },
+  });
+
+  const unrealized = positions.reduce((sum, position) => sum + position.pnl, 0);
+  return Number(realized._sum.pnl || 0) + unrealized;
+};
+
+export const runPreTradeChecks = async (
+  subscription: Subscription,
+  broker: BaseBroker,
+  order: RiskCheckOrder
+): Promise<RiskCheckResult> => {
+  const positions = await broker.getPositions();
+  const position = positions.find(p => p.symbol === order.symbol);
+
+  if (isReducing(position, order.side)) {
+    return { approved: true, quantity: order.quantity };
+  }
+
+  const dailyLossLimit = Number(subscription.dailyLossLimit);
+  if (dailyLossLimit > 0) {
+    const dailyPnL = await getDailyPnL(subscription, positions);
+
+    if (-dailyPnL >= dailyLossLimit) {
+      const reason = `Daily loss of ${(-dailyPnL).toFixed(2)} reached the limit of ${dailyLossLimit.toFixed(2)}; copying paused`;
+      await pauseSubscription(subscription, reason, 'RISK_LIMIT');
+      return { approved: false, quantity: 0, reason };
+    }
+  }
+
+  const maxPositionSize = Number(subscription.maxPositionSize);
+  if (maxPositionSize > 0 && order.referencePrice > 0) {
+    const positionBaseSize = position ? position.size * (order.contractValue || 1) : 0;
+    const currentNotional = positionBaseSize * (position?.markPrice || order.referencePrice);
+    const availableNotional = maxPositionSize - currentNotional;
+
+    if (availableNotional <= 0) {
+      return {
+        approved: false,
+        quantity: 0,
+        reason: `Position in ${order.symbol} already at max size of ${maxPositionSize}`,
+      };
+    }
+
+    const maxQuantity = availableNotional / order.referencePrice;
+    if (order.quantity > maxQuantity) {
+      logger.info(`Capping ${order.symbol} order for subscription ${subscription.id} from ${order.quantity} to ${maxQuantity}`);
+      return { approved: true, quantity: maxQuantity };
+    }
+  }
+
+  return { approved: true, quantity: order.quantity };
+};
@@ -0,0 +1,105 @@
+import { ValidationError } from '../../utils/errors';
+
+// A recurring block of trading time; end before start runs past midnight
+export interface TradingWindow {
+  days: number[];  // 0 = Sunday ... 6 = Saturday, the day the window starts
+  start: string;   // HH:mm
+  end: string;     // HH:mm
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const validateSchedule = (schedule: unknown): TradingWindow[] => {
+  if (!Array.isArray(schedule) || schedule.length === 0) {
+    throw new ValidationError('Invalid trading schedule', [
+      { field: 'tradingSchedule', message: 'Schedule must be a non-empty list of windows' },
+    ]);
+  }
+
+  const errors: { field: string; message: string }[] = [];
+
+  schedule.forEach((window: any, index: number) => {
+    const field = `tradingSchedule[${index}]`;
+
+    if (!Array.isArray(window?.days) || window.days.length === 0 ||
+      !window.days.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)) {
+      errors.push({ field: `${field}.days`, message: 'Days must be a list of weekday numbers from 0 (Sunday) to 6' });
+    }
+
+    if (typeof window?.start !== 'string' || !TIME_PATTERN.test(window.start)) {
+      errors.push({ field: `${field}.start`, message: 'Start must be a time in HH:mm format' });
+    }
+
+    if (typeof window?.end !== 'string' || !TIME_PATTERN.test(window.end)) {
+      errors.push({ field: `${field}.end`, message: 'End must be a time in HH:mm format' });
+    } else if (window.end === window.start) {
+      errors.push({ field: `${field}.end`, message: 'End must differ from start' });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid trading schedule', errors);
+  }
+
+  return schedule.map((window: any) => ({ days: window.days, start: window.start, end: window.end }));
+};
+
+// Weekday and minute of the day on the wall clock of the given timezone
+const localTime = (at: Date, timezone: string): { day: number; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: parseInt(part('hour')) * 60 + parseInt(part('minute')),
+  };
+};
+
+// No schedule means copying around the clock
+export const isWithinSchedule = (schedule: unknown, timezone: string, at: Date = new Date()): boolean => {
+  if (!Array.isArray(schedule) || schedule.length === 0) {
+    return true;
+  }
+
+  const { day, minutes } = localTime(at, timezone);
+  const previousDay = (day + 6) % 7;
+
+  return (schedule as TradingWindow[]).some(window => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+
+    if (start < end) {
+      return window.days.includes(day) && minutes >= start && minutes < end;
+    }
+
+    // Overnight window: the evening part belongs to today, the early hours to yesterday's window
+    return (window.days.includes(day) && minutes >= start) ||
+      (window.days.includes(previousDay) && minutes < end);
+  });
+};
+
+export const describeSchedule = (schedule: TradingWindow[]): string =>
+  schedule
+    .map(window => `${window.days.map(day => WEEKDAYS[day]).join(',')} ${window.start}-${window.end}`)
+    .join('; ');
@@ -0,0 +1,121 @@
+import { SizingMode } from '@prisma/client';
+import { ValidationError } from '../../utils/errors';
+import { OrderFill } from '../brokerIntegrations/baseBroker';
+
+export interface SizingConfig {
+  sizingMode: SizingMode;
+  multiplier: number;
+  fixedNotional?: number | null;
+  fixedQuantity?: number | null;
+  riskPercent?: number | null;
+  stopLossPercent?: number | null;
+}
+
+export interface SizingContext {
+  fill: Pick<OrderFill, 'quantity' | 'price'>;
+  masterEquity: number;
+  followerEquity: number;
+}
+
+export const SIZING_MODES: SizingMode[] = [
+  'MULTIPLIER',
+  'EQUITY_PROPORTIONAL',
+  'FIXED_NOTIONAL',
+  'FIXED_QUANTITY',
+  'RISK_PERCENT',
+];
+
+const isPositive = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Read the sizing fields off a Subscription row, where numbers are Prisma decimals
+export const toSizingConfig = (subscription: {
+  sizingMode: SizingMode;
+  multiplier: unknown;
+  fixedNotional?: unknown;
+  fixedQuantity?: unknown;
+  riskPercent?: unknown;
+  stopLossPercent?: unknown;
+}): SizingConfig => ({
+  sizingMode: subscription.sizingMode,
+  multiplier: Number(subscription.multiplier),
+  fixedNotional: subscription.fixedNotional != null ? Number(subscription.fixedNotional) : null,
+  fixedQuantity: subscription.fixedQuantity != null ? Number(subscription.fixedQuantity) : null,
+  riskPercent: subscription.riskPercent != null ? Number(subscription.riskPercent) : null,
+  stopLossPercent: subscription.stopLossPercent != null ? Number(subscription.stopLossPercent) : null,
+});
+
+export const validateSizingConfig = (config: SizingConfig): void => {
+  const errors: { field: string; message: string }[] = [];
+
+  if (!SIZING_MODES.includes(config.sizingMode)) {
+    errors.push({ field: 'sizingMode', message: `Must be one of ${SIZING_MODES.join(', ')}` });
+  }
+
+  if (!isPositive(config.multiplier)) {
+    errors.push({ field: 'multiplier', message: 'Multiplier must be greater than 0' });
+  }
+
+  switch (config.sizingMode) {
+    case 'FIXED_NOTIONAL':
+      if (!isPositive(config.fixedNotional)) {
+        errors.push({ field: 'fixedNotional', message: 'Fixed notional is required and must be greater than 0' });
+      }
+      break;
+    case 'FIXED_QUANTITY':
+      if (!isPositive(config.fixedQuantity)) {
+        errors.push({ field: 'fixedQuantity', message: 'Fixed quantity is required and must be greater than 0' });
+      }
+      break;
+    case 'RISK_PERCENT':
+      if (!isPositive(config.riskPercent) || config.riskPercent! > 100) {
+        errors.push({ field: 'riskPercent', message: 'Risk percent is required and must be between 0 and 100' });
+      }
+      if (!isPositive(config.stopLossPercent) || config.stopLossPercent! > 100) {
+        errors.push({ field: 'stopLossPercent', message: 'Stop loss percent is required and must be between 0 and 100' });
+      }
+      break;
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid sizing configuration', errors);
+  }
+};
+
+// Follower quantity for a master fill; 0 means there is nothing sensible to copy
+export const calculateFollowerQuantity = (config: SizingConfig, context: SizingContext): number => {
+  const { fill, masterEquity, followerEquity } = context;
+
+  switch (config.sizingMode) {
+    case 'MULTIPLIER':
+      return fill.quantity * config.multiplier;
+
+    case 'EQUITY_PROPORTIONAL':
+      if (!isPositive(masterEquity) || !isPositive(followerEquity)) {
+        return 0;
+      }
+      return fill.quantity * (followerEquity / masterEquity) * config.multiplier;
+
+    case 'FIXED_NOTIONAL':
+      if (!isPositive(config.fixedNotional) || !isPositive(fill.price)) {
+        return 0;
+      }
+      return config.fixedNotional / fill.price;
+
+    case 'FIXED_QUANTITY':
+      return isPositive(config.fixedQuantity) ? config.fixedQuantity : 0;
+
+    case 'RISK_PERCENT': {
+      // Sized so that a move of stopLossPercent against the entry loses riskPercent of the follower's equity
+      if (!isPositive(config.riskPercent) || !isPositive(config.stopLossPercent) || !isPositive(followerEquity) || !isPositive(fill.price)) {
+        return 0;
+      }
+      const riskAmount = followerEquity * config.riskPercent / 100;
+      const stopDistance = fill.price * config.stopLossPercent / 100;
+      return riskAmount / stopDistance;
+    }
+
+    default:
+      return 0;
+  }
+};
@@ -0,0 +1,48 @@
+import { SlippageAction } from '@prisma/client';
+
+export interface SlippageDecision {
+  action: 'proceed' | 'skip' | 'limit';
+  slippage: number;     // Adverse move in percent; negative means price improved
+  limitPrice?: number;
+  reason?: string;
+}
+
+// Positive when the follower would pay more (buy) or receive less (sell) than the master did
+export const calculateSlippage = (side: 'buy' | 'sell', expectedPrice: number, actualPrice: number): number => {
+  if (!expectedPrice || !actualPrice) {
+    return 0;
+  }
+
+  const move = ((actualPrice - expectedPrice) / expectedPrice) * 100;
+  return side === 'buy' ? move : -move;
+};
+
+// Worst price still inside tolerance
+export const toleranceLimitPrice = (side: 'buy' | 'sell', masterPrice: number, maxSlippage: number): number =>
+  side === 'buy'
+    ? masterPrice * (1 + maxSlippage / 100)
+    : masterPrice * (1 - maxSlippage / 100);
+
+export const checkSlippage = (
+  side: 'buy' | 'sell',
+  masterPrice: number,
+  currentPrice: number,
+  maxSlippage: number | null,
+  slippageAction: SlippageAction
+): SlippageDecision => {
+  const slippage = calculateSlippage(side, masterPrice, currentPrice);
+
+  if (!maxSlippage || maxSlippage <= 0 || slippage <= maxSlippage) {
+    return { action: 'proceed', slippage };
+  }
+
+  if (slippageAction === 'LIMIT_IOC') {
+    return { action: 'limit', slippage, limitPrice: toleranceLimitPrice(side, masterPrice, maxSlippage) };
+  }
+
+  return {
+    action: 'skip',
+    slippage,
+    reason: `Price moved ${slippage.toFixed(2)}% from master fill, beyond the ${maxSlippage}% tolerance`,
+  };
+};
@@ -0,0 +1,59 @@
+import { Subscription, SubscriptionEventSource } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../../config/database';
+import { logger } from '../../utils/logger';
+
+export const pauseSubscription = async (
+  subscription: Subscription,
+  reason?: string,
+  source: SubscriptionEventSource = 'USER'
+): Promise<Subscription> => {
+  const pausedAt = new Date();
+
+  const [updated] = await prisma.$transaction([
+    prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { isActive: false, pausedAt, pauseReason: reason || null },
+    }),
+    prisma.subscriptionEvent.create({
+      data: { subscriptionId: subscription.id, type: 'PAUSED', source, reason, createdAt: pausedAt },
+    }),
+    // Users know when they paused; automatic pauses need to reach them
+    ...(source !== 'USER' ? [
+      prisma.notification.create({
+        data: {
+          userId: subscription.userId,
+          type: 'SUBSCRIPTION_UPDATE',
+          title: 'Subscription Paused',
+          message: reason || 'Copying paused',
+          priority: 'HIGH',
+          metadata: { subscriptionId: subscription.id, reason, source },
+        },
+      }),
+    ] : []),
+  ]);
+
+  logger.warn(`Subscription ${subscription.id} paused (${source})${reason ? `: ${reason}` : ''}`);
+  return updated;
+};
+
+export const resumeSubscription = async (
+  subscription: Subscription,
+  reason?: string,
+  source: SubscriptionEventSource = 'USER'
+): Promise<Subscription> => {
+  const resumedAt = new Date();
+
+  const [updated] = await prisma.$transaction([
+    prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { isActive: true, resumedAt, pauseReason: null },
+    }),
+    prisma.subscriptionEvent.create({
+      data: { subscriptionId: subscription.id, type: 'RESUMED', source, reason, createdAt: resumedAt },
+    }),
+  ]);
+
+  logger.info(`Subscription ${subscription.id} resumed (${source})`);
+  return updated;
+};
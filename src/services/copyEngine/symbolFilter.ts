@@ -0,0 +1,30 @@
+export interface SymbolFilter {
+  allowedSymbols: string[];
+  blockedSymbols: string[];
+}
+
+export interface SymbolFilterResult {
+  allowed: boolean;
+  reason?: string;
+}
+
+// Stored upper-cased and de-duplicated so matching is exact
+export const normalizeSymbolList = (symbols: string[]): string[] =>
+  Array.from(new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+
+// Candidates are every name the instrument goes by: master symbol, follower symbol, canonical id
+export const checkSymbolFilter = (filter: SymbolFilter, candidates: Array<string | null | undefined>): SymbolFilterResult => {
+  const names = candidates.filter((name): name is string => !!name).map(name => name.toUpperCase());
+  const label = names[0];
+
+  const blocked = names.find(name => filter.blockedSymbols.includes(name));
+  if (blocked) {
+    return { allowed: false, reason: `${label} is on the subscription's deny list (${blocked})` };
+  }
+
+  if (filter.allowedSymbols.length > 0 && !names.some(name => filter.allowedSymbols.includes(name))) {
+    return { allowed: false, reason: `${label} is not on the subscription's allow list` };
+  }
+
+  return { allowed: true };
+};
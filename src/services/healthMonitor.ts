@@ -3,6 +3,7 @@ import prisma from '../config/database';
 import { checkDatabaseHealth } from '../config/database';
 import { checkRedisHealth } from '../config/redis';
 import { logger } from '../utils/logger';
+import { BaseBroker, ClockSkew, StreamEvent } from './brokerIntegrations/baseBroker';
 
 interface HealthCheck {
   service: string;
@@ -11,6 +12,67 @@ interface HealthCheck {
   responseTime?: number;
 }
 
+interface BrokerStreamStatus {
+  instanceId: string;
+  stream: string;
+  connected: boolean;
+  disconnectedAt?: Date;
+  lastReason?: string;
+  reconnects: number;
+}
+
+interface BrokerClockStatus extends ClockSkew {
+  instanceId: string;
+}
+
+// Streams that have dropped at least once, keyed by `${instanceId}:${stream}`
+const brokerStreams: Map<string, BrokerStreamStatus> = new Map();
+const brokerClocks: Map<string, BrokerClockStatus> = new Map();
+
+// Follow a broker instance's socket drops and recoveries, and its measured clock skew, for the health report
+export const trackBroker = (instanceId: string, broker: BaseBroker): void => {
+  const statusFor = (stream: string): BrokerStreamStatus => {
+    const key = `${instanceId}:${stream}`;
+    let status = brokerStreams.get(key);
+    if (!status) {
+      status = { instanceId, stream, connected: true, reconnects: 0 };
+      brokerStreams.set(key, status);
+    }
+    return status;
+  };
+
+  broker.on('disconnected', (event: StreamEvent) => {
+    const status = statusFor(event.stream);
+    status.connected = false;
+    status.disconnectedAt = new Date();
+    status.lastReason = event.reason;
+  });
+
+  broker.on('reconnected', (event: StreamEvent) => {
+    const status = statusFor(event.stream);
+    status.connected = true;
+    status.disconnectedAt = undefined;
+    status.reconnects += 1;
+  });
+
+  broker.on('clockSynced', (skew: ClockSkew) => {
+    brokerClocks.set(instanceId, { instanceId, ...skew });
+  });
+};
+
+export const untrackBroker = (instanceId: string): void => {
+  for (const [key, status] of Array.from(brokerStreams.entries())) {
+    if (status.instanceId === instanceId) {
+      brokerStreams.delete(key);
+    }
+  }
+  brokerClocks.delete(instanceId);
+};
+
+export const getBrokerStreamStatus = (): BrokerStreamStatus[] => Array.from(brokerStreams.values());
+
+export const getBrokerClockSkew = (): BrokerClockStatus[] => Array.from(brokerClocks.values());
+
 export const startHealthMonitoring = (): void => {
   const interval = parseInt(process.env.HEALTH_CHECK_INTERVAL || '30000');
   
@@ -45,6 +107,12 @@ const performHealthChecks = async (): Promise<void> => {
     message: redisHealthy ? 'Redis connection OK' : 'Redis connection failed',
   });
 
+  // Broker stream health check
+  checks.push(checkBrokerStreamHealth());
+
+  // Exchange clock skew check
+  checks.push(checkBrokerClockHealth());
+
   // Memory health check
   const memoryCheck = checkMemoryHealth();
   checks.push(memoryCheck);
@@ -69,6 +137,54 @@ const performHealthChecks = async (): Promise<void> => {
   }
 };
 
+const checkBrokerStreamHealth = (): HealthCheck => {
+  const statuses = getBrokerStreamStatus();
+  const down = statuses.filter(status => !status.connected);
+  const reconnects = statuses.reduce((sum, status) => sum + status.reconnects, 0);
+  const longestOutageMs = down.reduce(
+    (longest, status) => Math.max(longest, Date.now() - (status.disconnectedAt?.getTime() || Date.now())),
+    0
+  );
+  const unhealthyAfterMs = parseInt(process.env.BROKER_STREAM_DOWN_THRESHOLD_MS || '60000');
+
+  let status: 'HEALTHY' | 'DEGRADED' | 'UNHEALTHY' = 'HEALTHY';
+  let message = `All broker streams connected (${reconnects} reconnects)`;
+
+  if (down.length > 0) {
+    status = longestOutageMs > unhealthyAfterMs ? 'UNHEALTHY' : 'DEGRADED';
+    message = `Broker streams reconnecting: ${down.map(stream => `${stream.instanceId}:${stream.stream}`).join(', ')}`;
+  }
+
+  return {
+    service: 'broker-streams',
+    status,
+    message,
+    responseTime: longestOutageMs,
+  };
+};
+
+const checkBrokerClockHealth = (): HealthCheck => {
+  const clocks = getBrokerClockSkew();
+  const worst = clocks.reduce<BrokerClockStatus | null>(
+    (largest, clock) => !largest || Math.abs(clock.offsetMs) > Math.abs(largest.offsetMs) ? clock : largest,
+    null
+  );
+  const warnAfterMs = parseInt(process.env.CLOCK_SKEW_WARN_MS || '1000');
+
+  if (!worst) {
+    return { service: 'broker-clocks', status: 'HEALTHY', message: 'No exchange clocks measured yet', responseTime: 0 };
+  }
+
+  // Signing already corrects for the skew; a large one still points at a drifting host clock
+  const skewMs = Math.abs(worst.offsetMs);
+  return {
+    service: 'broker-clocks',
+    status: skewMs > warnAfterMs ? 'DEGRADED' : 'HEALTHY',
+    message: `Largest exchange clock skew: ${worst.offsetMs}ms (${worst.instanceId})`,
+    responseTime: skewMs,
+  };
+};
+
 const checkMemoryHealth = (): HealthCheck => {
   const usage = process.memoryUsage();
   const usedMemory = usage.heapUsed;
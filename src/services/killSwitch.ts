@@ -0,0 +1,232 @@
+import { BrokerAccount, Prisma } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { BrokerFactory } from './brokerIntegrations/brokerFactory';
+import { copyEngine } from './copyEngine/copyEngine';
+import { syncPositionRecords } from './copyEngine/positionPoller';
+import { pauseSubscription } from './copyEngine/subscriptionState';
+import { orderTracker, placementFields } from './orderTracker';
+import { broadcastTradeUpdate } from './websocket';
+
+export interface KillSwitchOptions {
+  accountId?: string;   // Limit to one account; otherwise every account the user owns
+  reason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface PositionCloseResult {
+  accountId: string;
+  accountName: string;
+  symbol: string;
+  side: 'long' | 'short';
+  size: number;
+  status: 'closed' | 'pending' | 'failed';
+  orderId?: string;
+  tradeId?: string;
+  error?: string;
+}
+
+export interface AccountKillResult {
+  accountId: string;
+  accountName: string;
+  cancelledOrders: number;
+  failedCancels: number;
+  error?: string;
+}
+
+export interface KillSwitchReport {
+  scope: 'user' | 'account';
+  triggeredAt: Date;
+  subscriptionsPaused: number;
+  accounts: AccountKillResult[];
+  positions: PositionCloseResult[];
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// Cancel every open order, then market-close every position on one account
+const flattenAccount = async (
+  account: BrokerAccount,
+  userId: string,
+  positions: PositionCloseResult[]
+): Promise<AccountKillResult> => {
+  const result: AccountKillResult = {
+    accountId: account.id,
+    accountName: account.name,
+    cancelledOrders: 0,
+    failedCancels: 0,
+  };
+
+  const broker = BrokerFactory.createAccountBroker(account);
+
+  try {
+    const openOrders = await broker.getOpenOrders();
+    const cancelledIds: string[] = [];
+
+    for (const order of openOrders) {
+      try {
+        if (await broker.cancelOrder(order.orderId, order.symbol)) {
+          cancelledIds.push(order.orderId);
+        } else {
+          result.failedCancels++;
+        }
+      } catch (error) {
+        result.failedCancels++;
+        logger.error(`Kill switch failed to cancel order ${order.orderId} on ${account.name}:`, error);
+      }
+    }
+
+    result.cancelledOrders = cancelledIds.length;
+
+    if (cancelledIds.length > 0) {
+      await prisma.trade.updateMany({
+        where: { accountId: account.id, brokerTradeId: { in: cancelledIds }, status: { in: ['PENDING', 'PARTIALLY_FILLED'] } },
+        data: { status: 'CANCELLED' },
+      });
+    }
+  } catch (error) {
+    result.error = `Failed to list open orders: ${errorMessage(error)}`;
+  }
+
+  let openPositions;
+  try {
+    openPositions = await broker.getPositions();
+  } catch (error) {
+    result.error = [result.error, `Failed to load positions: ${errorMessage(error)}`].filter(Boolean).join('; ');
+    return result;
+  }
+
+  for (const position of openPositions) {
+    const side = position.side === 'long' ? 'sell' : 'buy';
+    const closeResult: PositionCloseResult = {
+      accountId: account.id,
+      accountName: account.name,
+      symbol: position.symbol,
+      side: position.side,
+      size: position.size,
+      status: 'failed',
+    };
+
+    try {
+      const order = await broker.placeOrder({
+        symbol: position.symbol,
+        side,
+        type: 'market',
+        quantity: position.size,
+        reduceOnly: true,
+      });
+
+      const trade = await prisma.trade.create({
+        data: {
+          userId,
+          accountId: account.id,
+          symbol: position.symbol,
+          side: side === 'buy' ? 'BUY' : 'SELL',
+          quantity: position.size,
+          price: position.markPrice,
+          ...placementFields(order),
+        },
+      });
+
+      orderTracker.track(trade, broker, order);
+      broadcastTradeUpdate(trade);
+
+      closeResult.status = order.status === 'filled'
+        ? 'closed'
+        : order.status === 'pending' || order.status === 'partially_filled' ? 'pending' : 'failed';
+      closeResult.orderId = order.orderId;
+      closeResult.tradeId = trade.id;
+    } catch (error) {
+      closeResult.error = errorMessage(error);
+      logger.error(`Kill switch failed to close ${position.symbol} on ${account.name}:`, error);
+    }
+
+    positions.push(closeResult);
+  }
+
+  try {
+    await syncPositionRecords(account.id, await broker.getPositions());
+  } catch (error) {
+    logger.warn(`Kill switch could not refresh positions for ${account.name}:`, error);
+  }
+
+  return result;
+};
+
+export const runKillSwitch = async (userId: string, options: KillSwitchOptions = {}): Promise<KillSwitchReport> => {
+  const triggeredAt = new Date();
+  const scope = options.accountId ? 'account' : 'user';
+  const reason = options.reason || 'Emergency kill switch';
+
+  const accounts = await prisma.brokerAccount.findMany({
+    where: {
+      userId,
+      ...(options.accountId && { id: options.accountId }),
+    },
+  });
+  const accountIds = accounts.map(account => account.id);
+
+  // Halt copying first so the flattening below is not itself copied
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { masterAccountId: { in: accountIds } },
+        { followerAccountId: { in: accountIds } },
+      ],
+    },
+  });
+
+  for (const subscription of subscriptions) {
+    await pauseSubscription(subscription, `Kill switch: ${reason}`, 'KILL_SWITCH');
+  }
+
+  const masterAccountIds = Array.from(new Set(subscriptions.map(subscription => subscription.masterAccountId)));
+  await Promise.all(masterAccountIds.map(masterAccountId =>
+    copyEngine.syncMasterAccount(masterAccountId).catch((error) => {
+      logger.error(`Kill switch failed to stop watching master ${masterAccountId}:`, error);
+    })
+  ));
+
+  const positions: PositionCloseResult[] = [];
+  const accountResults: AccountKillResult[] = [];
+
+  for (const account of accounts) {
+    accountResults.push(await flattenAccount(account, userId, positions));
+  }
+
+  const report: KillSwitchReport = {
+    scope,
+    triggeredAt,
+    subscriptionsPaused: subscriptions.length,
+    accounts: accountResults,
+    positions,
+  };
+
+  // Copied into plain objects, which Prisma accepts as JSON where the result interfaces are not
+  const auditDetails: Prisma.InputJsonObject = {
+    reason,
+    subscriptionsPaused: report.subscriptionsPaused,
+    accounts: accountResults.map(result => ({ ...result })),
+    positions: positions.map(position => ({ ...position })),
+  };
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'KILL_SWITCH',
+      resource: options.accountId ? `broker_account:${options.accountId}` : `user:${userId}`,
+      details: auditDetails,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+    },
+  });
+
+  const failures = positions.filter(position => position.status === 'failed').length;
+  logger.warn(`Kill switch (${scope}) for user ${userId}: paused ${subscriptions.length} subscriptions, closed ${positions.length - failures}/${positions.length} positions`);
+
+  return report;
+};
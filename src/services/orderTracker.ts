@@ -0,0 +1,341 @@
+import { EventEmitter } from 'events';
+import { Trade, TradeStatus } from '@prisma/client';
+// Import prisma client from database configuration
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { BaseBroker, OrderFill, OrderUpdate, TradeResult } from './brokerIntegrations/baseBroker';
+import { BrokerFactory } from './brokerIntegrations/brokerFactory';
+import { broadcastTradeUpdate } from './websocket';
+
+interface TrackedOrder {
+  tradeId: string;
+  accountId: string;
+  orderId: string;
+  symbol: string;
+  status: TradeStatus;
+  // Cumulative figures reported by the venue for the whole order
+  reportedQuantity: number;
+  reportedPrice: number;
+  reportedFees: number;
+  // Running totals of individual stream fills, which can arrive before or after the cumulative view
+  fillQuantity: number;
+  fillNotional: number;
+  fillFees: number;
+  fillIds: Set<string>;
+  writes: Promise<unknown>;  // Keeps trade row updates in event order
+  lastUpdateAt: number;
+  broker: BaseBroker;
+}
+
+interface AccountListeners {
+  broker: BaseBroker;
+  onOrderUpdate: (update: OrderUpdate) => void;
+  onFill: (fill: OrderFill) => void;
+}
+
+const FINAL_STATUSES: TradeStatus[] = ['EXECUTED', 'CANCELLED', 'FAILED'];
+
+export const toTradeStatus = (status: TradeResult['status']): TradeStatus => {
+  switch (status) {
+    case 'filled':
+      return 'EXECUTED';
+    case 'partially_filled':
+      return 'PARTIALLY_FILLED';
+    case 'pending':
+      return 'PENDING';
+    case 'cancelled':
+      return 'CANCELLED';
+    default:
+      return 'FAILED';
+  }
+};
+
+export const isFinalTradeStatus = (status: TradeStatus): boolean => FINAL_STATUSES.includes(status);
+
+// Trade row fields known as soon as placeOrder returns
+export const placementFields = (result: TradeResult) => {
+  const filledQuantity = result.filledQuantity ?? (result.status === 'filled' ? result.quantity : 0);
+  const executedPrice = result.averagePrice || (filledQuantity > 0 && result.price ? result.price : undefined);
+
+  return {
+    brokerTradeId: result.orderId,
+    status: toTradeStatus(result.status),
+    filledQuantity,
+    executedPrice,
+    fees: result.fees,
+    executedAt: result.status === 'filled' ? result.timestamp : undefined,
+  };
+};
+
+// Follows placed orders to a final state through private streams, or by polling where there is none
+export class OrderTracker extends EventEmitter {
+  private orders: Map<string, TrackedOrder> = new Map();
+  private accountListeners: Map<string, AccountListeners> = new Map();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling: boolean = false;
+  private readonly intervalMs = parseInt(process.env.ORDER_TRACK_INTERVAL || '5000');
+
+  // Picks up orders that were still open when the process last stopped
+  async start(intervalMs: number = this.intervalMs): Promise<void> {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.pollOrders().catch((error) => {
+        logger.error('Order tracker poll failed:', error);
+      });
+    }, intervalMs);
+
+    const openTrades = await prisma.trade.findMany({
+      where: {
+        status: { in: ['PENDING', 'PARTIALLY_FILLED'] },
+        brokerTradeId: { not: null },
+      },
+      include: { account: true },
+    });
+
+    for (const { account, ...trade } of openTrades) {
+      try {
+        this.track(trade, BrokerFactory.createAccountBroker(account));
+      } catch (error) {
+        logger.error(`Order tracker could not resume trade ${trade.id}:`, error);
+      }
+    }
+
+    logger.info(`Order tracker started with ${intervalMs}ms interval, resumed ${this.orders.size} open orders`);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    for (const accountId of Array.from(this.accountListeners.keys())) {
+      this.detach(accountId);
+    }
+    this.orders.clear();
+  }
+
+  // Seed with the placement result so fills it already reported are not counted twice
+  track(trade: Trade, broker: BaseBroker, result?: TradeResult): void {
+    if (!trade.brokerTradeId || isFinalTradeStatus(trade.status)) {
+      return;
+    }
+
+    const key = this.orderKey(trade.accountId, trade.brokerTradeId);
+    if (this.orders.has(key)) {
+      return;
+    }
+
+    this.orders.set(key, {
+      tradeId: trade.id,
+      accountId: trade.accountId,
+      orderId: trade.brokerTradeId,
+      symbol: trade.symbol,
+      status: trade.status,
+      reportedQuantity: result?.filledQuantity ?? Number(trade.filledQuantity),
+      reportedPrice: result?.averagePrice || Number(trade.executedPrice || 0),
+      reportedFees: result?.fees ?? Number(trade.fees || 0),
+      fillQuantity: 0,
+      fillNotional: 0,
+      fillFees: 0,
+      fillIds: new Set(),
+      writes: Promise.resolve(),
+      lastUpdateAt: Date.now(),
+      broker,
+    });
+
+    this.attach(trade.accountId, broker);
+  }
+
+  // Apply the venue's view of an order right away, e.g. after cancelling it, instead of waiting for the next poll
+  async refresh(trade: Trade, broker: BaseBroker): Promise<Trade> {
+    this.track(trade, broker);
+
+    const order = trade.brokerTradeId ? this.orders.get(this.orderKey(trade.accountId, trade.brokerTradeId)) : undefined;
+    if (!order) {
+      return trade;
+    }
+
+    const result = await broker.getOrderStatus(order.orderId, order.symbol);
+    order.lastUpdateAt = Date.now();
+    return this.applySnapshot(order, result);
+  }
+
+  getTrackedCount(): number {
+    return this.orders.size;
+  }
+
+  private orderKey(accountId: string, orderId: string): string {
+    return `${accountId}:${orderId}`;
+  }
+
+  // Whichever source has seen more of the order wins
+  private totals(order: TrackedOrder): { filledQuantity: number; averagePrice: number; fees: number } {
+    const useReported = order.reportedQuantity >= order.fillQuantity && order.reportedPrice > 0;
+
+    return {
+      filledQuantity: Math.max(order.reportedQuantity, order.fillQuantity),
+      averagePrice: useReported
+        ? order.reportedPrice
+        : order.fillQuantity > 0 ? order.fillNotional / order.fillQuantity : order.reportedPrice,
+      fees: Math.max(order.reportedFees, order.fillFees),
+    };
+  }
+
+  private attach(accountId: string, broker: BaseBroker): void {
+    if (this.accountListeners.has(accountId)) {
+      return;
+    }
+
+    const onOrderUpdate = (update: OrderUpdate) => {
+      const order = this.orders.get(this.orderKey(accountId, update.orderId));
+      if (!order) {
+        return;
+      }
+
+      this.applySnapshot(order, {
+        status: update.status,
+        filledQuantity: update.filledQuantity,
+        averagePrice: update.averagePrice,
+        timestamp: update.timestamp,
+      }).catch((error) => {
+        logger.error(`Order tracker failed to apply update for ${update.orderId}:`, error);
+      });
+    };
+
+    const onFill = (fill: OrderFill) => {
+      const order = this.orders.get(this.orderKey(accountId, fill.orderId));
+      if (!order) {
+        return;
+      }
+
+      this.applyFill(order, fill).catch((error) => {
+        logger.error(`Order tracker failed to apply fill for ${fill.orderId}:`, error);
+      });
+    };
+
+    broker.on('orderUpdate', onOrderUpdate);
+    broker.on('fill', onFill);
+    this.accountListeners.set(accountId, { broker, onOrderUpdate, onFill });
+  }
+
+  private detach(accountId: string): void {
+    const listeners = this.accountListeners.get(accountId);
+    if (!listeners) {
+      return;
+    }
+
+    listeners.broker.off('orderUpdate', listeners.onOrderUpdate);
+    listeners.broker.off('fill', listeners.onFill);
+    this.accountListeners.delete(accountId);
+  }
+
+  private async applyFill(order: TrackedOrder, fill: OrderFill): Promise<void> {
+    const fillId = fill.tradeId || `${fill.timestamp.getTime()}:${fill.quantity}:${fill.price}`;
+    if (order.fillIds.has(fillId)) {
+      return;
+    }
+
+    order.fillIds.add(fillId);
+    order.fillQuantity += fill.quantity;
+    order.fillNotional += fill.quantity * fill.price;
+    order.fillFees += fill.fee || 0;
+
+    await this.persist(order, order.status === 'PENDING' ? 'PARTIALLY_FILLED' : order.status, fill.timestamp);
+  }
+
+  // Cumulative views of the order, from getOrderStatus or an orderUpdate event
+  private async applySnapshot(
+    order: TrackedOrder,
+    snapshot: { status: TradeResult['status']; filledQuantity?: number; averagePrice?: number; fees?: number; timestamp: Date }
+  ): Promise<Trade> {
+    if (snapshot.filledQuantity !== undefined && snapshot.filledQuantity >= order.reportedQuantity) {
+      order.reportedQuantity = snapshot.filledQuantity;
+      order.reportedPrice = snapshot.averagePrice || order.reportedPrice;
+    }
+
+    if (snapshot.fees !== undefined && snapshot.fees > order.reportedFees) {
+      order.reportedFees = snapshot.fees;
+    }
+
+    let status = toTradeStatus(snapshot.status);
+    if (status === 'PENDING' && this.totals(order).filledQuantity > 0) {
+      status = 'PARTIALLY_FILLED';
+    }
+
+    return this.persist(order, status, snapshot.timestamp);
+  }
+
+  private async persist(order: TrackedOrder, status: TradeStatus, timestamp: Date): Promise<Trade> {
+    order.lastUpdateAt = Date.now();
+    order.status = status;
+
+    const isFinal = isFinalTradeStatus(status);
+    const { filledQuantity, averagePrice, fees } = this.totals(order);
+
+    if (isFinal) {
+      this.orders.delete(this.orderKey(order.accountId, order.orderId));
+      if (!Array.from(this.orders.values()).some(other => other.accountId === order.accountId)) {
+        this.detach(order.accountId);
+      }
+    }
+
+    const write = order.writes.catch(() => undefined).then(() => prisma.trade.update({
+      where: { id: order.tradeId },
+      data: {
+        // Also covers trades whose placement could not be written when the order went out
+        brokerTradeId: order.orderId,
+        status,
+        filledQuantity,
+        executedPrice: averagePrice > 0 ? averagePrice : undefined,
+        fees: fees > 0 ? fees : undefined,
+        executedAt: isFinal && filledQuantity > 0 ? timestamp : undefined,
+      },
+    }));
+    order.writes = write;
+
+    const trade = await write;
+
+    broadcastTradeUpdate(trade);
+    this.emit(isFinal ? 'orderCompleted' : 'orderUpdated', trade);
+
+    if (isFinal) {
+      logger.info(`Order ${order.orderId} for trade ${order.tradeId} ${status.toLowerCase()}: filled ${filledQuantity} ${order.symbol} at ${averagePrice}`);
+    }
+    return trade;
+  }
+
+  private async pollOrders(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      for (const order of Array.from(this.orders.values())) {
+        // Orders the stream is keeping current do not need a REST round trip
+        if (Date.now() - order.lastUpdateAt < this.intervalMs) {
+          continue;
+        }
+
+        try {
+          const result = await order.broker.getOrderStatus(order.orderId, order.symbol);
+          order.lastUpdateAt = Date.now();
+
+          if (toTradeStatus(result.status) !== order.status || (result.filledQuantity ?? 0) > this.totals(order).filledQuantity) {
+            await this.applySnapshot(order, result);
+          }
+        } catch (error) {
+          logger.warn(`Order tracker could not fetch status for ${order.orderId} on ${order.symbol}:`, error);
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+}
+
+export const orderTracker = new OrderTracker();